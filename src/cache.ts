@@ -0,0 +1,111 @@
+import crypto from 'crypto'
+
+export interface CachedResponse {
+  path: string
+  status: number
+  headers: Record<string, string>
+  body: string
+  etag: string
+}
+
+export interface ResponseCacheOptions {
+  maxEntries?: number
+  /** Clock used for expiry, replaceable in tests. */
+  now?: () => number
+}
+
+export interface ResponseCache {
+  get(key: string): CachedResponse | null
+  set(
+    key: string,
+    response: Omit<CachedResponse, 'etag'>,
+    ttlMs: number
+  ): CachedResponse
+  /** Evicts entries whose path matches any of the `*` glob patterns. */
+  invalidate(patterns: string[]): number
+}
+
+interface CacheEntry {
+  response: CachedResponse
+  expiresAt: number
+}
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * In-memory response store shared by all routes of an app, so that write
+ * routes can evict what read routes cached. When full, expired entries are
+ * dropped first and then the oldest ones.
+ */
+export function createResponseCache(
+  options: ResponseCacheOptions = {}
+): ResponseCache {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  const now = options.now ?? Date.now
+  const entries = new Map<string, CacheEntry>()
+
+  function get(key: string): CachedResponse | null {
+    const entry = entries.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt <= now()) {
+      entries.delete(key)
+      return null
+    }
+
+    return entry.response
+  }
+
+  function set(
+    key: string,
+    response: Omit<CachedResponse, 'etag'>,
+    ttlMs: number
+  ): CachedResponse {
+    const time = now()
+    entries.delete(key)
+
+    if (entries.size >= maxEntries) {
+      for (const [entryKey, entry] of entries) {
+        if (entry.expiresAt <= time) entries.delete(entryKey)
+      }
+    }
+
+    while (entries.size >= maxEntries) {
+      entries.delete(entries.keys().next().value as string)
+    }
+
+    const cached = { ...response, etag: createETag(response.body) }
+    entries.set(key, { response: cached, expiresAt: time + ttlMs })
+    return cached
+  }
+
+  function invalidate(patterns: string[]): number {
+    const matchers = patterns.map(globToRegExp)
+    let evicted = 0
+
+    for (const [key, entry] of entries) {
+      if (matchers.some((matcher) => matcher.test(entry.response.path))) {
+        entries.delete(key)
+        evicted++
+      }
+    }
+
+    return evicted
+  }
+
+  return { get, set, invalidate }
+}
+
+function createETag(body: string): string {
+  const hash = crypto.createHash('sha1').update(body).digest('base64url')
+  return `"${hash}"`
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${source}$`)
+}
@@ -0,0 +1,309 @@
+import { Command, InvalidArgumentError } from 'commander'
+import fs from 'fs'
+import path from 'path'
+import packageJSON from '../package.json' with { type: 'json' }
+import { isNewDatabase, openDatabase, resetDatabase } from './database.js'
+import { formatDiagnostic, hasErrors } from './diagnostics.js'
+import { DEFAULT_DRIVER, createAdapter } from './drivers.js'
+import { LoadedCSS, loadCSSFile } from './loader.js'
+import {
+  MigrationStatus,
+  applyMigrations,
+  getMigrationStatus,
+} from './migrations.js'
+import { CSSApp, createApp, startServer } from './runtime.js'
+import { RouteRule, ServerConfig } from './types.js'
+
+export interface ServeOptions {
+  port?: number
+  host?: string
+  watch?: boolean
+  seed?: boolean
+}
+
+const WATCH_INTERVAL_MS = 250
+
+export function createProgram(): Command {
+  const program = new Command()
+
+  program
+    .name('css-server')
+    .description(packageJSON.description)
+    .version(packageJSON.version, '-v, --version', 'Display version')
+    .helpOption('--help', 'Display help')
+
+  program
+    .command('serve <file>', { isDefault: true })
+    .description('Start the server defined by a CSS file')
+    .option('-p, --port <number>', 'Override server port', parsePort)
+    .option('-h, --host <string>', 'Override server host')
+    .option('-w, --watch', 'Reload routes when the file changes')
+    .option('--seed', 'Run the @seed blocks before starting')
+    .helpOption('--help', 'Display help')
+    .action((file: string, options: ServeOptions) => {
+      const parsed = loadFile(file)
+      const config = resolveServerConfig(parsed.config, options)
+
+      console.log(`Loading CSS server from: ${path.resolve(file)}`)
+      console.log(`Found ${parsed.routes.length} route(s)`)
+
+      const app = runOrExit(() => createApp(parsed, { seed: options.seed }))
+      startServer(app, config)
+
+      if (options.watch) {
+        watchFiles(file, parsed.files, app)
+      }
+    })
+
+  program
+    .command('check <file>')
+    .description('Parse and validate a CSS file without starting the server')
+    .helpOption('--help', 'Display help')
+    .action((file: string) => {
+      const parsed = loadFile(file)
+      const warnings = parsed.diagnostics.length
+
+      console.log(
+        `${file}: ${parsed.routes.length} route(s), ${warnings} warning(s)`
+      )
+    })
+
+  program
+    .command('routes <file>')
+    .description('List the routes defined by a CSS file')
+    .helpOption('--help', 'Display help')
+    .action((file: string) => {
+      const parsed = loadFile(file)
+      console.log(formatRoutesTable(parsed.routes))
+    })
+
+  program
+    .command('migrate <file>')
+    .description('Apply pending @migration blocks to the database')
+    .option('--status', 'List migrations without applying them')
+    .helpOption('--help', 'Display help')
+    .action((file: string, options: { status?: boolean }) => {
+      const parsed = loadDatabaseFile(file)
+      const { database } = parsed.config
+      const driver = parsed.config.driver ?? DEFAULT_DRIVER
+
+      // --status only reads, so a missing database is not created.
+      if (options.status && isNewDatabase(driver, database!)) {
+        console.log(
+          formatMigrationStatus(getMigrationStatus(null, parsed.migrations))
+        )
+        return
+      }
+
+      const db = runOrExit(() => createAdapter(driver, database!))
+
+      try {
+        if (options.status) {
+          console.log(
+            formatMigrationStatus(getMigrationStatus(db, parsed.migrations))
+          )
+          return
+        }
+
+        const applied = runOrExit(() => applyMigrations(db, parsed.migrations))
+        for (const name of applied) console.log(`Applied ${name}`)
+        console.log(
+          applied.length
+            ? `Applied ${applied.length} migration(s)`
+            : 'No pending migrations'
+        )
+      } finally {
+        db.close()
+      }
+    })
+
+  const dbCommand = program
+    .command('db')
+    .description('Seed or reset the database of a CSS file')
+    .helpOption('--help', 'Display help')
+
+  dbCommand
+    .command('seed <file>')
+    .description('Run the @seed blocks against the database')
+    .helpOption('--help', 'Display help')
+    .action((file: string) => {
+      const parsed = loadDatabaseFile(file)
+
+      if (!parsed.seed) {
+        console.log(`${file} has no @seed blocks`)
+        return
+      }
+
+      runOrExit(() => openDatabase(parsed, { seed: true })).database.close()
+      console.log(`Seeded ${parsed.config.database}`)
+    })
+
+  dbCommand
+    .command('reset <file>')
+    .description('Recreate the database, then apply the schema and seed it')
+    .helpOption('--help', 'Display help')
+    .action((file: string) => {
+      const parsed = loadDatabaseFile(file)
+      const { database, seeded } = runOrExit(() => resetDatabase(parsed))
+      database.close()
+
+      console.log(
+        `Reset ${parsed.config.database}${seeded ? ' and seeded it' : ''}`
+      )
+    })
+
+  return program
+}
+
+export function resolveServerConfig(
+  config: ServerConfig,
+  options: ServeOptions
+): ServerConfig {
+  return {
+    ...config,
+    port: options.port ?? config.port,
+    host: options.host ?? config.host,
+  }
+}
+
+export function formatRoutesTable(routes: RouteRule[]): string {
+  return formatTable(
+    ['METHOD', 'PATH', 'VARIABLES', 'RETURNS'],
+    routes.map((route) => [
+      route.method,
+      route.path,
+      route.variables.map((variable) => `--${variable.name}`).join(', ') || '-',
+      route.return.type,
+    ])
+  )
+}
+
+export function formatMigrationStatus(statuses: MigrationStatus[]): string {
+  return formatTable(
+    ['MIGRATION', 'STATUS', 'APPLIED AT'],
+    statuses.map((status) => [
+      status.name,
+      status.state,
+      status.appliedAt ?? '-',
+    ])
+  )
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  )
+
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n')
+}
+
+function loadFile(file: string): LoadedCSS {
+  const filePath = path.resolve(file)
+
+  if (!fs.existsSync(filePath)) {
+    console.error(`Error: File not found: ${filePath}`)
+    process.exit(1)
+  }
+
+  const parsed = readFile(file)
+
+  if (hasErrors(parsed.diagnostics)) {
+    console.error(`Error: ${file} contains errors`)
+    process.exit(1)
+  }
+
+  return parsed
+}
+
+function loadDatabaseFile(file: string): LoadedCSS {
+  const parsed = loadFile(file)
+
+  if (!parsed.config.database) {
+    console.error(`Error: ${file} has no @server database`)
+    process.exit(1)
+  }
+
+  return parsed
+}
+
+function readFile(file: string): LoadedCSS {
+  const parsed = loadCSSFile(file)
+
+  for (const diagnostic of parsed.diagnostics) {
+    console.error(formatDiagnostic(diagnostic, file))
+  }
+
+  return parsed
+}
+
+// Polling survives editors that save by replacing the file, which would
+// silently detach an fs.watch() handle. Every imported file is watched and
+// the set is refreshed after each reload, as imports may have changed.
+function watchFiles(file: string, files: string[], app: CSSApp): void {
+  const watched = new Set<string>()
+
+  function onChange(): void {
+    let parsed: LoadedCSS
+    try {
+      parsed = readFile(file)
+    } catch (error) {
+      console.error(
+        `Error: Could not read ${file}: ${(error as Error).message}`
+      )
+      return
+    }
+
+    sync(parsed.files)
+
+    if (hasErrors(parsed.diagnostics)) {
+      console.error(`Error: ${file} contains errors, keeping last good version`)
+      return
+    }
+
+    app.reload(parsed)
+    console.log(`Reloaded ${parsed.routes.length} route(s) from ${file}`)
+  }
+
+  function sync(next: string[]): void {
+    for (const watchedFile of watched) {
+      if (next.includes(watchedFile)) continue
+      fs.unwatchFile(watchedFile, onChange)
+      watched.delete(watchedFile)
+    }
+
+    for (const nextFile of next) {
+      if (watched.has(nextFile)) continue
+      fs.watchFile(nextFile, { interval: WATCH_INTERVAL_MS }, onChange)
+      watched.add(nextFile)
+    }
+  }
+
+  console.log(`Watching ${files.length} file(s) for changes`)
+  sync(files)
+}
+
+function runOrExit<T>(fn: () => T): T {
+  try {
+    return fn()
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`)
+    process.exit(1)
+  }
+}
+
+function parsePort(value: string): number {
+  const port = Number(value)
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidArgumentError('Port must be an integer from 0 to 65535.')
+  }
+
+  return port
+}
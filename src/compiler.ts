@@ -1,6 +1,26 @@
-import { Request, RequestHandler, Response } from 'express'
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import { CachedResponse, createResponseCache, ResponseCache } from './cache.js'
+import { DatabaseConnections } from './database.js'
 import { evaluateExpression } from './evaluator.js'
-import { HttpMethod, RequestContext, RouteRule } from './types.js'
+import { verifyJwt } from './jwt.js'
+import { createRateLimiter } from './rate-limiter.js'
+import {
+  AuthRule,
+  CacheRule,
+  FieldValidation,
+  HttpMethod,
+  MiddlewareRule,
+  RateLimit,
+  RateLimitConfig,
+  RequestContext,
+  ResponseHeader,
+  ReturnValue,
+  RouteRule,
+  StatusValue,
+  TransactionRule,
+  VariableAssignment,
+} from './types.js'
+import { validateRequest } from './validation.js'
 
 export interface CompiledRoute {
   path: string
@@ -8,52 +28,409 @@ export interface CompiledRoute {
   handler: RequestHandler
 }
 
-export function compileRoutes(routes: RouteRule[]): CompiledRoute[] {
-  return routes.map(compileRoute)
+export interface CompiledMiddleware {
+  path: string
+  method?: HttpMethod
+  handler: RequestHandler
+}
+
+/**
+ * Routes share one response cache so that `invalidate` on a write route can
+ * evict what `cache` on a read route stored.
+ */
+export function compileRoutes(
+  routes: RouteRule[],
+  cache: ResponseCache = createResponseCache()
+): CompiledRoute[] {
+  return routes.map((route) => compileRoute(route, cache))
 }
 
-function compileRoute(route: RouteRule): CompiledRoute {
+export function compileMiddleware(
+  middleware: MiddlewareRule[]
+): CompiledMiddleware[] {
+  return middleware.map((rule) => ({
+    path: toExpressPath(rule.path ?? '*'),
+    method: rule.method,
+    handler: createMiddlewareHandler(rule),
+  }))
+}
+
+export function compileRateLimits(
+  rateLimits: RateLimitConfig[]
+): CompiledMiddleware[] {
+  return rateLimits.map((rateLimit) => {
+    const check = createRateLimitCheck(rateLimit)
+
+    return {
+      path: toExpressPath(rateLimit.path ?? '*'),
+      method: rateLimit.method,
+      handler: (req: Request, res: Response, next: NextFunction) => {
+        if (check(req, res, createContext(req, res))) next()
+      },
+    }
+  })
+}
+
+function compileRoute(route: RouteRule, cache: ResponseCache): CompiledRoute {
   return {
-    path: route.path,
+    path: toExpressPath(route.path),
     method: route.method,
-    handler: createHandler(route),
+    handler: createHandler(route, cache),
   }
 }
 
-function createHandler(route: RouteRule): RequestHandler {
+function createHandler(route: RouteRule, cache: ResponseCache): RequestHandler {
+  const checkRateLimit = createRateLimitCheck(route.rateLimit)
+
   return (req: Request, res: Response) => {
-    const ctx: RequestContext = {
-      params: normalizeParams(req.params),
-      query: normalizeQuery(req.query),
-      body: normalizeBody(req.body),
-      headers: normalizeHeaders(req.headers),
-      variables: {},
+    const ctx = createContext(req, res)
+
+    if (!checkRateLimit(req, res, ctx)) return
+    if (!applyAuth(route.auth, ctx, res)) return
+    if (!applyValidations(route.validations, ctx, res)) return
+
+    const cacheKey = route.cache ? getCacheKey(route, route.cache, req) : null
+    const cached = cacheKey ? cache.get(cacheKey) : null
+    if (cached) {
+      sendCached(res, cached, 'HIT')
+      return
     }
 
-    for (const variable of route.variables) {
-      ctx.variables[variable.name] = evaluateExpression(variable.value, ctx)
+    function evaluate(): unknown {
+      evaluateVariables(route.variables, ctx)
+      applyStatus(route.status, ctx, res)
+      applyHeaders(route.headers, ctx, res)
+      return evaluateExpression(route.return.value, ctx)
     }
 
-    if (route.status) {
-      const statusValue =
-        route.status.type === 'literal'
-          ? route.status.value
-          : Number(evaluateExpression(route.status.value, ctx))
-      if (Number.isFinite(statusValue)) {
-        res.status(statusValue)
+    let result: unknown
+    if (route.transaction) {
+      try {
+        result = ctx.database ? ctx.database.transaction(evaluate) : evaluate()
+      } catch (error) {
+        sendTransactionError(route, route.transaction, error, ctx, res)
+        return
       }
+    } else {
+      result = evaluate()
     }
 
-    const result = evaluateExpression(route.return.value, ctx)
+    const succeeded = res.statusCode < 400 && !isErrorResult(result)
 
-    if (route.return.type === 'json') {
-      res.json(result)
-    } else {
-      res.send(typeof result === 'string' ? result : String(result))
+    if (route.invalidate && succeeded) {
+      cache.invalidate(route.invalidate)
+    }
+
+    if (route.cache && cacheKey && succeeded && res.statusCode === 200) {
+      const body = serializeResult(res, route.return, result)
+      const response = cache.set(
+        cacheKey,
+        {
+          path: req.path,
+          status: res.statusCode,
+          headers: pickHeaders(res, [
+            'content-type',
+            ...route.headers.map((header) => header.name),
+          ]),
+          body,
+        },
+        route.cache.ttlMs
+      )
+      sendCached(res, response, 'MISS')
+      return
+    }
+
+    sendResult(res, route.return, result)
+  }
+}
+
+/**
+ * The transaction has been rolled back, so headers the route already set are
+ * dropped. The failure message is available to the error response as
+ * `--error`; without `@transaction` the client gets a generic 500.
+ */
+function sendTransactionError(
+  route: RouteRule,
+  transaction: TransactionRule,
+  error: unknown,
+  ctx: RequestContext,
+  res: Response
+): void {
+  for (const header of route.headers) {
+    res.removeHeader(header.name)
+  }
+
+  ctx.variables.error = error instanceof Error ? error.message : String(error)
+  res.status(500)
+  applyStatus(transaction.status, ctx, res)
+
+  if (transaction.return) {
+    const result = evaluateExpression(transaction.return.value, ctx)
+    sendResult(res, transaction.return, result)
+  } else {
+    res.json({ error: 'Transaction failed' })
+  }
+}
+
+// The query string is sorted so that `?a=1&b=2` and `?b=2&a=1` share an
+// entry. Only the headers listed in vary() take part in the key.
+function getCacheKey(route: RouteRule, cache: CacheRule, req: Request): string {
+  const query = new URLSearchParams(req.originalUrl.split('?')[1] ?? '')
+  query.sort()
+
+  const headers = cache.vary.map(
+    (name) => `${name}=${String(req.headers[name] ?? '')}`
+  )
+
+  return [`${route.method} ${req.path}?${query}`, ...headers].join('\n')
+}
+
+// Express answers If-None-Match with 304 itself once the ETag is set.
+function sendCached(
+  res: Response,
+  cached: CachedResponse,
+  state: 'HIT' | 'MISS'
+): void {
+  for (const [name, value] of Object.entries(cached.headers)) {
+    res.setHeader(name, value)
+  }
+
+  res.setHeader('ETag', cached.etag)
+  res.setHeader('X-Cache', state)
+  res.status(cached.status).send(cached.body)
+}
+
+function serializeResult(
+  res: Response,
+  returnValue: ReturnValue,
+  result: unknown
+): string {
+  if (returnValue.type === 'json') {
+    res.type('json')
+    return JSON.stringify(result) ?? ''
+  }
+
+  res.type('html')
+  return typeof result === 'string' ? result : String(result)
+}
+
+function pickHeaders(res: Response, names: string[]): Record<string, string> {
+  const headers: Record<string, string> = {}
+
+  for (const name of names) {
+    const value = res.getHeader(name)
+    if (value !== undefined) headers[name] = String(value)
+  }
+
+  return headers
+}
+
+// sql() reports failures as `{ error }` objects rather than throwing.
+function isErrorResult(result: unknown): boolean {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    !Array.isArray(result) &&
+    'error' in result
+  )
+}
+
+/**
+ * Variables assigned by @before blocks are kept in `res.locals` so that later
+ * middleware and the matched route start from them. A non-null @return value
+ * ends the request; anything else passes it on.
+ */
+function createMiddlewareHandler(rule: MiddlewareRule): RequestHandler {
+  const checkRateLimit = createRateLimitCheck(rule.rateLimit)
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ctx = createContext(req, res)
+
+    if (!checkRateLimit(req, res, ctx)) return
+    if (!applyAuth(rule.auth, ctx, res)) return
+    if (!applyValidations(rule.validations, ctx, res)) return
+    evaluateVariables(rule.variables, ctx)
+    applyHeaders(rule.headers, ctx, res)
+    res.locals.variables = ctx.variables
+
+    if (rule.return) {
+      const result = evaluateExpression(rule.return.value, ctx)
+      if (result !== null && result !== undefined) {
+        applyStatus(rule.status, ctx, res)
+        sendResult(res, rule.return, result)
+        return
+      }
     }
+
+    next()
   }
 }
 
+/**
+ * The database belongs to the app, so it is read from `app.locals` rather
+ * than captured when compiling: reloaded routes keep using the same one.
+ */
+function createContext(req: Request, res: Response): RequestContext {
+  const database = req.app.locals.database as DatabaseConnections | undefined
+
+  return {
+    params: normalizeParams(req.params),
+    query: normalizeQuery(req.query),
+    body: normalizeBody(req.body),
+    headers: normalizeHeaders(req.headers),
+    variables: { ...res.locals.variables },
+    ...(database ? { database } : {}),
+  }
+}
+
+/**
+ * Each rule gets its own limiter, keyed by the `by` expression or the client
+ * IP. Limiter state lives in the compiled handler, so a reload starts every
+ * client with a full bucket.
+ */
+function createRateLimitCheck(
+  rateLimit: RateLimit | undefined
+): (req: Request, res: Response, ctx: RequestContext) => boolean {
+  if (!rateLimit) return () => true
+
+  const limiter = createRateLimiter(rateLimit)
+
+  return (req, res, ctx) => {
+    const key = rateLimit.key ? evaluateExpression(rateLimit.key, ctx) : null
+    const result = limiter.hit(
+      key === null || key === undefined || key === ''
+        ? (req.ip ?? 'unknown')
+        : String(key)
+    )
+
+    res.setHeader('RateLimit-Limit', String(result.limit))
+    res.setHeader('RateLimit-Remaining', String(result.remaining))
+    res.setHeader('RateLimit-Reset', String(result.reset))
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', String(result.retryAfter))
+      res.status(429).json({ error: 'Too many requests' })
+      return false
+    }
+
+    return true
+  }
+}
+
+// Requests without a valid token are answered with 401 before validation.
+// Scalar claims are also exposed as `--<variable>-<claim>` so they can be
+// passed straight to sql().
+function applyAuth(
+  auth: AuthRule | undefined,
+  ctx: RequestContext,
+  res: Response
+): boolean {
+  if (!auth) return true
+
+  const claims = verifyJwt(
+    evaluateExpression(auth.token, ctx),
+    evaluateExpression(auth.secret, ctx)
+  )
+
+  if (!claims) {
+    res.setHeader('WWW-Authenticate', 'Bearer')
+    res.status(401).json({ error: 'Unauthorized' })
+    return false
+  }
+
+  ctx.variables[auth.variable] = claims
+  for (const [claim, value] of Object.entries(claims)) {
+    if (value === null || typeof value !== 'object') {
+      ctx.variables[`${auth.variable}-${claim}`] = value
+    }
+  }
+
+  return true
+}
+
+// Invalid requests are answered with 400 before any variable is evaluated,
+// so sql() never sees unchecked input. Returns whether handling may continue.
+function applyValidations(
+  validations: FieldValidation[],
+  ctx: RequestContext,
+  res: Response
+): boolean {
+  if (validations.length === 0) return true
+
+  const { values, errors } = validateRequest(validations, ctx)
+
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Validation failed', fields: errors })
+    return false
+  }
+
+  Object.assign(ctx.variables, values)
+  return true
+}
+
+function evaluateVariables(
+  variables: VariableAssignment[],
+  ctx: RequestContext
+): void {
+  for (const variable of variables) {
+    ctx.variables[variable.name] = evaluateExpression(variable.value, ctx)
+  }
+}
+
+function applyStatus(
+  status: StatusValue | undefined,
+  ctx: RequestContext,
+  res: Response
+): void {
+  if (!status) return
+
+  const statusValue =
+    status.type === 'literal'
+      ? status.value
+      : Number(evaluateExpression(status.value, ctx))
+  if (Number.isFinite(statusValue)) {
+    res.status(statusValue)
+  }
+}
+
+// Null, undefined and false leave the header out, which lets if() without an
+// else branch add a header conditionally.
+function applyHeaders(
+  headers: ResponseHeader[],
+  ctx: RequestContext,
+  res: Response
+): void {
+  for (const header of headers) {
+    const value = evaluateExpression(header.value, ctx)
+    if (value === null || value === undefined || value === false) continue
+
+    res.setHeader(
+      header.name,
+      Array.isArray(value) ? value.map(String) : String(value)
+    )
+  }
+}
+
+function sendResult(
+  res: Response,
+  returnValue: ReturnValue,
+  result: unknown
+): void {
+  if (returnValue.type === 'json') {
+    res.json(result)
+  } else {
+    res.send(typeof result === 'string' ? result : String(result))
+  }
+}
+
+// Express 5 no longer accepts bare `*` wildcards, so `*` and trailing `/*`
+// are rewritten to named splats that also match the parent path.
+export function toExpressPath(path: string): string {
+  if (path === '*') return '/{*splat}'
+  if (path.endsWith('/*')) return `${path.slice(0, -2)}{/*splat}`
+  return path
+}
+
 function normalizeQuery(query: Request['query']): Record<string, string> {
   const normalized: Record<string, string> = {}
 
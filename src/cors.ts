@@ -0,0 +1,100 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import { CorsConfig } from './types.js'
+
+/**
+ * Sets the `Access-Control-*` headers for requests from an allowed origin.
+ * Preflight requests continue to the routes so that a declared `:OPTIONS`
+ * route can still answer them; `createPreflightHandler()` answers the rest.
+ */
+export function createCorsHandler(config: CorsConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin
+    const allowedOrigin = resolveOrigin(config, origin)
+
+    if (!config.origins.includes('*')) {
+      res.vary('Origin')
+    }
+
+    if (!allowedOrigin) {
+      next()
+      return
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin)
+
+    if (config.credentials) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true')
+    }
+
+    if (config.exposeHeaders.length) {
+      res.setHeader(
+        'Access-Control-Expose-Headers',
+        config.exposeHeaders.join(', ')
+      )
+    }
+
+    if (isPreflight(req)) {
+      res.setHeader('Access-Control-Allow-Methods', config.methods.join(', '))
+
+      const requestHeaders = req.headers['access-control-request-headers']
+      const allowedHeaders = config.headers.length
+        ? config.headers.join(', ')
+        : requestHeaders
+
+      if (allowedHeaders) {
+        res.setHeader('Access-Control-Allow-Headers', allowedHeaders)
+        if (!config.headers.length) res.vary('Access-Control-Request-Headers')
+      }
+
+      if (config.maxAge !== undefined) {
+        res.setHeader('Access-Control-Max-Age', String(config.maxAge))
+      }
+    }
+
+    next()
+  }
+}
+
+export function createPreflightHandler(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isPreflight(req)) {
+      next()
+      return
+    }
+
+    res.setHeader('Content-Length', '0')
+    res.status(204).end()
+  }
+}
+
+/**
+ * Preflight requests carry no credentials, so `@before` blocks that check
+ * them would reject every cross-origin call. They are passed over instead.
+ */
+export function skipPreflight(handler: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isPreflight(req)) {
+      next()
+      return
+    }
+
+    return handler(req, res, next)
+  }
+}
+
+function resolveOrigin(
+  config: CorsConfig,
+  origin: string | undefined
+): string | null {
+  // The parser rejects credentials with a wildcard origin.
+  if (config.origins.includes('*')) return '*'
+
+  return origin && config.origins.includes(origin) ? origin : null
+}
+
+function isPreflight(req: Request): boolean {
+  return (
+    req.method === 'OPTIONS' &&
+    req.headers['access-control-request-method'] !== undefined
+  )
+}
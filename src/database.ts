@@ -0,0 +1,184 @@
+import fs from 'fs'
+import { DEFAULT_DRIVER, DatabaseAdapter, createAdapter } from './drivers.js'
+import { applyMigrations } from './migrations.js'
+import { DEFAULT_CONNECTION, ParsedCSS, ServerConfig } from './types.js'
+
+const RESERVED_SCHEMAS = ['main', 'temp']
+
+/**
+ * The open connections of one app, handed to expressions through the request
+ * context. The first connection is the default one.
+ */
+export interface DatabaseConnections {
+  /** The named connection, or the default one when no name is given. */
+  get(name?: string): DatabaseAdapter | null
+  /**
+   * Runs `fn` in a transaction on every connection, so a failure rolls back
+   * the statements it executed on any of them.
+   */
+  transaction<T>(fn: () => T): T
+  /** Whether `transaction()` is running; sql() errors are thrown inside it. */
+  inTransaction(): boolean
+  close(): void
+}
+
+export interface OpenDatabaseOptions {
+  /** Runs the `@seed` blocks even when the database already existed. */
+  seed?: boolean
+}
+
+export interface OpenedDatabase {
+  database: DatabaseConnections
+  /** Whether the `@seed` blocks were run. */
+  seeded: boolean
+}
+
+export function createConnections(
+  adapters: [string, DatabaseAdapter][]
+): DatabaseConnections {
+  const byName = new Map(adapters)
+  let active = false
+
+  function get(name?: string): DatabaseAdapter | null {
+    return (name ? byName.get(name) : adapters[0]?.[1]) ?? null
+  }
+
+  function transaction<T>(fn: () => T): T {
+    if (active) return fn()
+
+    active = true
+    try {
+      const run = adapters.reduce(
+        (inner, [, adapter]) =>
+          () =>
+            adapter.transaction(inner),
+        fn
+      )
+      return run()
+    } finally {
+      active = false
+    }
+  }
+
+  function inTransaction(): boolean {
+    return active
+  }
+
+  function close(): void {
+    for (const [, adapter] of adapters) adapter.close()
+  }
+
+  return { get, transaction, inTransaction, close }
+}
+
+/**
+ * Opens every configured connection, runs `@database`, applies pending
+ * migrations and then runs `@seed` when asked to or when the database did
+ * not exist before, so a fresh development database starts with data.
+ * Migrations and seeds run on the default connection.
+ */
+export function openDatabase(
+  parsed: ParsedCSS,
+  options: OpenDatabaseOptions = {}
+): OpenedDatabase {
+  const connections = listConnections(parsed.config)
+  if (!connections.length) throw new Error('@server has no database')
+
+  const driver = parsed.config.driver ?? DEFAULT_DRIVER
+  const created = isNewDatabase(driver, connections[0][1])
+  const adapters: [string, DatabaseAdapter][] = []
+
+  try {
+    for (const [name, location] of connections) {
+      adapters.push([name, createAdapter(driver, location)])
+    }
+    attachConnections(adapters, connections)
+
+    const database = createConnections(adapters)
+
+    const db = database.get()!
+    if (parsed.schema) db.exec(parsed.schema)
+    for (const [name, schema] of Object.entries(parsed.schemas ?? {})) {
+      database.get(name)?.exec(schema)
+    }
+    applyMigrations(db, parsed.migrations)
+
+    const seeded = Boolean(parsed.seed && (options.seed || created))
+    if (seeded) db.transaction(() => db.exec(parsed.seed!))
+
+    return { database, seeded }
+  } catch (error) {
+    for (const [, adapter] of adapters) adapter.close()
+    throw error
+  }
+}
+
+/**
+ * Deletes the database files of every connection and opens new ones, which
+ * re-applies the schemas and migrations and re-seeds the default connection.
+ * Connections to the files must be closed first.
+ */
+export function resetDatabase(parsed: ParsedCSS): OpenedDatabase {
+  const connections = listConnections(parsed.config)
+  if (!connections.length) throw new Error('@server has no database')
+
+  const driver = parsed.config.driver ?? DEFAULT_DRIVER
+  if (driver !== 'sqlite' && driver !== 'memory') {
+    throw new Error(`The ${driver} driver does not support db reset`)
+  }
+  if (driver === 'memory' || isMemoryDatabase(connections[0][1])) {
+    throw new Error('An in-memory database cannot be reset')
+  }
+
+  for (const [, dbPath] of connections) {
+    if (!isMemoryDatabase(dbPath)) removeDatabase(dbPath)
+  }
+  return openDatabase(parsed, { seed: true })
+}
+
+/** Connection names and paths, default connection first. */
+export function listConnections(config: ServerConfig): [string, string][] {
+  if (config.databases) {
+    return Object.entries(config.databases).filter(([, dbPath]) => dbPath)
+  }
+  return config.database ? [[DEFAULT_CONNECTION, config.database]] : []
+}
+
+/** Deletes a database file together with its journal and WAL files. */
+export function removeDatabase(dbPath: string): void {
+  for (const suffix of ['', '-journal', '-wal', '-shm']) {
+    fs.rmSync(`${dbPath}${suffix}`, { force: true })
+  }
+}
+
+/**
+ * Attaches every file-backed connection to every other one under its name,
+ * so queries can join across them, when the driver supports it. SQLite
+ * reserves `main` and `temp`, so connections with those names can only be
+ * queried directly.
+ */
+function attachConnections(
+  opened: [string, DatabaseAdapter][],
+  connections: [string, string][]
+): void {
+  for (const [name, db] of opened) {
+    for (const [otherName, otherPath] of connections) {
+      if (otherName === name || RESERVED_SCHEMAS.includes(otherName)) continue
+      if (isMemoryDatabase(otherPath)) continue
+
+      db.attach?.(otherName, otherPath)
+    }
+  }
+}
+
+// Only the built-in drivers can tell whether a database is new, so others
+// are seeded on request only.
+export function isNewDatabase(driver: string, dbPath: string): boolean {
+  if (driver === 'memory') return true
+  if (driver !== 'sqlite') return false
+  return isMemoryDatabase(dbPath) || !fs.existsSync(dbPath)
+}
+
+function isMemoryDatabase(dbPath: string): boolean {
+  return dbPath === ':memory:'
+}
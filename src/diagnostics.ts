@@ -0,0 +1,377 @@
+import path from 'path'
+import {
+  AuthRule,
+  Condition,
+  Diagnostic,
+  Expression,
+  FieldValidation,
+  MiddlewareRule,
+  RateLimit,
+  RateLimitConfig,
+  ResponseHeader,
+  ReturnValue,
+  RouteRule,
+  SourceLocation,
+  StatusValue,
+  TransactionRule,
+  VariableAssignment,
+} from './types.js'
+
+interface Scope {
+  rateLimit?: RateLimit
+  transaction?: TransactionRule
+  auth?: AuthRule
+  validations: FieldValidation[]
+  variables: VariableAssignment[]
+  headers: ResponseHeader[]
+  status?: StatusValue
+  return?: ReturnValue
+  source?: SourceLocation
+}
+
+export function validateRoutes(
+  routes: RouteRule[],
+  middleware: MiddlewareRule[] = [],
+  rateLimits: RateLimitConfig[] = [],
+  connections: string[] = []
+): Diagnostic[] {
+  // Global limits run before any @before block, so they cannot see variables.
+  const rateLimitDiagnostics = rateLimits.flatMap((rateLimit) =>
+    validateScope(
+      { validations: [], variables: [], headers: [], rateLimit },
+      [],
+      `@rate-limit ${rateLimit.path ?? '*'}`,
+      connections
+    )
+  )
+
+  const middlewareDiagnostics = middleware.flatMap((rule, index) =>
+    validateScope(
+      rule,
+      [...middleware.slice(0, index), rule],
+      `@before${rule.method ? ` ${rule.method}` : ''} ${rule.path ?? '*'}`,
+      connections
+    )
+  )
+
+  const routeDiagnostics = routes.flatMap((route) => {
+    const declaring = [
+      ...middleware.filter((rule) => middlewareApplies(rule, route)),
+      route,
+    ]
+    const label = `route ${route.method} ${route.path}`
+
+    return [
+      ...validateScope(route, declaring, label, connections),
+      ...validateCacheVary(route, declaring, label),
+    ]
+  })
+
+  return [
+    ...rateLimitDiagnostics,
+    ...middlewareDiagnostics,
+    ...routeDiagnostics,
+  ]
+}
+
+function validateScope(
+  scope: Scope,
+  declaring: Scope[],
+  label: string,
+  connections: string[]
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const declared = declaredNames(declaring)
+  // Rate limits and @auth are checked before the scope's own validations and
+  // variables exist, so they only see what earlier scopes declared.
+  const declaredBefore = declaredNames(declaring.slice(0, -1))
+  const scopeLocation = scope.source ?? { line: 1, column: 1 }
+
+  function checkReferences(
+    expr: Expression,
+    location: SourceLocation,
+    names: DeclaredNames = declared
+  ): void {
+    const reported = new Set<string>()
+
+    for (const name of collectVariableReferences(expr)) {
+      if (names.has(name) || reported.has(name)) continue
+      reported.add(name)
+      diagnostics.push({
+        severity: 'error',
+        message: `Variable --${name} is not declared in ${label}`,
+        ...location,
+      })
+    }
+
+    for (const connection of new Set(collectConnections(expr))) {
+      if (connections.includes(connection)) continue
+      diagnostics.push({
+        severity: 'error',
+        message: `Unknown database connection "${connection}" in ${label}`,
+        ...location,
+      })
+    }
+  }
+
+  if (scope.rateLimit?.key) {
+    checkReferences(
+      scope.rateLimit.key,
+      scope.rateLimit.source ?? scopeLocation,
+      declaredBefore
+    )
+  }
+
+  if (scope.auth) {
+    const location = scope.auth.source ?? scopeLocation
+    checkReferences(scope.auth.token, location, declaredBefore)
+    checkReferences(scope.auth.secret, location, declaredBefore)
+  }
+
+  for (const variable of scope.variables) {
+    checkReferences(variable.value, variable.source ?? scopeLocation)
+  }
+
+  if (scope.status && scope.status.type !== 'literal') {
+    checkReferences(scope.status.value, scopeLocation)
+  }
+
+  for (const header of scope.headers) {
+    checkReferences(header.value, header.source ?? scopeLocation)
+  }
+
+  if (scope.return) {
+    checkReferences(scope.return.value, scope.return.source ?? scopeLocation)
+  }
+
+  if (scope.transaction) {
+    // The error response also sees the failure message as --error.
+    const onError = declaredNames(declaring, ['error'])
+    const location = scope.transaction.source ?? scopeLocation
+
+    if (
+      scope.transaction.status &&
+      scope.transaction.status.type !== 'literal'
+    ) {
+      checkReferences(scope.transaction.status.value, location, onError)
+    }
+    if (scope.transaction.return) {
+      checkReferences(scope.transaction.return.value, location, onError)
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Cache keys only hold the query string and the vary() headers, so a cached
+ * route has to vary on every header it or its @before blocks read, or every
+ * caller gets the first caller's response. @auth tokens that read neither a
+ * header nor the query string are assumed to come from Authorization.
+ */
+function validateCacheVary(
+  route: RouteRule,
+  declaring: Scope[],
+  label: string
+): Diagnostic[] {
+  const { cache } = route
+  if (!cache) return []
+
+  const missing = [...new Set(declaring.flatMap(collectHeaderReads))].filter(
+    (name) => !cache.vary.includes(name)
+  )
+  if (!missing.length) return []
+
+  return [
+    {
+      severity: 'warning',
+      message: `Cached ${label} reads request headers but does not vary(${missing.join(', ')}); every caller would get the first caller's response`,
+      ...(cache.source ?? route.source ?? { line: 1, column: 1 }),
+    },
+  ]
+}
+
+function collectHeaderReads(scope: Scope): string[] {
+  const expressions = [
+    ...scope.variables.map((variable) => variable.value),
+    ...scope.headers.map((header) => header.value),
+    ...(scope.status && scope.status.type !== 'literal'
+      ? [scope.status.value]
+      : []),
+    ...(scope.return ? [scope.return.value] : []),
+  ]
+  const validated = scope.validations.flatMap((validation) =>
+    validation.from === 'header' ? [validation.name.toLowerCase()] : []
+  )
+
+  return [
+    ...validated,
+    ...(scope.auth ? collectTokenHeaders(scope.auth.token) : []),
+    ...expressions.flatMap(flattenExpression).flatMap(headerName),
+  ]
+}
+
+function collectTokenHeaders(token: Expression): string[] {
+  const reads = flattenExpression(token)
+  const names = reads.flatMap(headerName)
+  if (names.length || reads.some((expr) => expr.type === 'query')) return names
+  return ['authorization']
+}
+
+function headerName(expr: Expression): string[] {
+  return expr.type === 'header' ? [expr.headerName.toLowerCase()] : []
+}
+
+interface DeclaredNames {
+  has(name: string): boolean
+}
+
+// Claim variables such as --auth-sub depend on the token, so any name under
+// an @auth variable counts as declared.
+function declaredNames(scopes: Scope[], extra: string[] = []): DeclaredNames {
+  const names = new Set([
+    ...extra,
+    ...scopes.flatMap((item) => [
+      ...(item.auth ? [item.auth.variable] : []),
+      ...item.validations.map((validation) => validation.name),
+      ...item.variables.map((variable) => variable.name),
+    ]),
+  ])
+  const claimPrefixes = scopes.flatMap((item) =>
+    item.auth ? [`${item.auth.variable}-`] : []
+  )
+
+  return {
+    has: (name) =>
+      names.has(name) ||
+      claimPrefixes.some((prefix) => name.startsWith(prefix)),
+  }
+}
+
+/**
+ * Static approximation of Express path matching, used to decide which
+ * @before variables a route can see. Parameters match any segment.
+ */
+function middlewareApplies(rule: MiddlewareRule, route: RouteRule): boolean {
+  if (rule.method && rule.method !== route.method) return false
+  if (!rule.path || rule.path === '*' || route.path === '*') return true
+
+  const pattern = rule.path.split('/').filter(Boolean)
+  const segments = route.path.split('/').filter(Boolean)
+  const wildcard = pattern[pattern.length - 1] === '*'
+
+  if (wildcard) pattern.pop()
+  if (
+    wildcard
+      ? segments.length < pattern.length
+      : segments.length !== pattern.length
+  ) {
+    return false
+  }
+
+  return pattern.every(
+    (segment, index) =>
+      segment === segments[index] ||
+      segment.startsWith(':') ||
+      segments[index].startsWith(':')
+  )
+}
+
+function collectVariableReferences(expr: Expression): string[] {
+  switch (expr.type) {
+    case 'var':
+      return [expr.name]
+
+    case 'if':
+      return [
+        ...expr.branches.flatMap((branch) => [
+          ...collectConditionReferences(branch.condition),
+          ...collectVariableReferences(branch.value),
+        ]),
+        ...(expr.elseValue ? collectVariableReferences(expr.elseValue) : []),
+      ]
+
+    default:
+      return childExpressions(expr).flatMap(collectVariableReferences)
+  }
+}
+
+function flattenExpression(expr: Expression): Expression[] {
+  return [expr, ...childExpressions(expr).flatMap(flattenExpression)]
+}
+
+function collectConnections(expr: Expression): string[] {
+  const own = expr.type === 'sql' && expr.connection ? [expr.connection] : []
+  return [...own, ...childExpressions(expr).flatMap(collectConnections)]
+}
+
+function childExpressions(expr: Expression): Expression[] {
+  switch (expr.type) {
+    case 'sql':
+      return [...expr.args, ...Object.values(expr.namedArgs ?? {})]
+
+    case 'if':
+      return [
+        ...expr.branches.map((branch) => branch.value),
+        ...(expr.elseValue ? [expr.elseValue] : []),
+      ]
+
+    case 'concat':
+      return expr.parts
+
+    case 'env':
+      return expr.fallback ? [expr.fallback] : []
+
+    case 'jwt':
+      return [expr.token, expr.secret]
+
+    case 'arithmetic':
+      return [expr.left, expr.right]
+
+    case 'math':
+    case 'string':
+      return expr.args
+
+    case 'cast':
+      return [expr.value]
+
+    case 'object':
+      return Object.values(expr.properties)
+
+    case 'array':
+      return expr.items
+
+    default:
+      return []
+  }
+}
+
+function collectConditionReferences(condition: Condition): string[] {
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      return condition.conditions.flatMap(collectConditionReferences)
+
+    case 'not':
+      return collectConditionReferences(condition.condition)
+
+    default:
+      return [condition.varName]
+  }
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error')
+}
+
+export function formatDiagnostic(
+  diagnostic: Diagnostic,
+  file?: string
+): string {
+  const location = `${diagnostic.line}:${diagnostic.column}`
+  const source = diagnostic.file
+    ? path.relative(process.cwd(), diagnostic.file)
+    : file
+  const prefix = source ? `${source}:${location}` : location
+  return `${prefix} - ${diagnostic.severity}: ${diagnostic.message}`
+}
@@ -0,0 +1,105 @@
+import Database from 'better-sqlite3'
+
+export type SqlRow = Record<string, unknown>
+
+/** Positional values, or one object for `:name` placeholders. */
+export type SqlParams = unknown[] | Record<string, unknown>
+
+export interface SqlRunResult {
+  /** Row id of the last inserted row, when the driver knows it. */
+  id?: number | bigint
+  changes: number
+}
+
+/**
+ * What the runtime needs from a database. Calls are synchronous because
+ * expressions are evaluated synchronously; drivers for remote databases
+ * have to block or keep a local replica.
+ */
+export interface DatabaseAdapter {
+  queryOne(sql: string, params?: SqlParams): SqlRow | null
+  queryAll(sql: string, params?: SqlParams): SqlRow[]
+  run(sql: string, params?: SqlParams): SqlRunResult
+  /** Runs a script of one or more statements without parameters. */
+  exec(sql: string): void
+  /**
+   * Runs `fn` in a transaction that commits when it returns and rolls back
+   * when it throws. Nested calls must not commit early.
+   */
+  transaction<T>(fn: () => T): T
+  close(): void
+  /** Makes another database of the same driver queryable as `<name>.`. */
+  attach?(name: string, location: string): void
+}
+
+/** Opens the database at the `database:` location of a connection. */
+export type DatabaseDriver = (location: string) => DatabaseAdapter
+
+export const DEFAULT_DRIVER = 'sqlite'
+
+const drivers = new Map<string, DatabaseDriver>([
+  ['sqlite', createSqliteAdapter],
+  ['memory', createMemoryAdapter],
+])
+
+/**
+ * Makes a driver available to `@server { driver: <name>; }`. Register drivers
+ * before creating the app; registering an existing name replaces it.
+ */
+export function registerDriver(name: string, driver: DatabaseDriver): void {
+  drivers.set(name, driver)
+}
+
+export function createAdapter(
+  driver: string,
+  location: string
+): DatabaseAdapter {
+  const open = drivers.get(driver)
+  if (!open) {
+    throw new Error(
+      `Unknown database driver "${driver}"; register it with registerDriver()`
+    )
+  }
+  return open(location)
+}
+
+export function createSqliteAdapter(location: string): DatabaseAdapter {
+  const db = new Database(location)
+
+  function bind(params: SqlParams = []): unknown[] {
+    return Array.isArray(params) ? params : [params]
+  }
+
+  return {
+    queryOne(sql, params) {
+      return (db.prepare(sql).get(...bind(params)) as SqlRow) ?? null
+    },
+    queryAll(sql, params) {
+      return db.prepare(sql).all(...bind(params)) as SqlRow[]
+    },
+    run(sql, params) {
+      const result = db.prepare(sql).run(...bind(params))
+      return { id: result.lastInsertRowid, changes: result.changes }
+    },
+    exec(sql) {
+      db.exec(sql)
+    },
+    transaction(fn) {
+      return db.transaction(fn)()
+    },
+    close() {
+      db.close()
+    },
+    attach(name, attachLocation) {
+      db.prepare(`ATTACH DATABASE ? AS "${name}"`).run(attachLocation)
+    },
+  }
+}
+
+/**
+ * SQLite in memory, for tests and throwaway servers: the location is ignored,
+ * every connection starts empty and nothing touches disk.
+ */
+export function createMemoryAdapter(): DatabaseAdapter {
+  return { ...createSqliteAdapter(':memory:'), attach: undefined }
+}
@@ -1,25 +1,14 @@
-import Database from 'better-sqlite3'
-import { Condition, Expression, RequestContext } from './types.js'
-
-let db: Database.Database | null = null
-
-export function initDatabase(dbPath: string): void {
-  db = new Database(dbPath)
-}
-
-export function executeSchema(schema: string): void {
-  if (!db) {
-    throw new Error('Database not initialized')
-  }
-  db.exec(schema)
-}
-
-export function closeDatabase(): void {
-  if (db) {
-    db.close()
-    db = null
-  }
-}
+import { verifyJwt } from './jwt.js'
+import {
+  ArithmeticOperator,
+  CastType,
+  Condition,
+  Expression,
+  MathFunction,
+  PathSegment,
+  RequestContext,
+  StringFunction,
+} from './types.js'
 
 export function evaluateExpression(
   expr: Expression,
@@ -30,7 +19,7 @@ export function evaluateExpression(
       return expr.value
 
     case 'var':
-      return ctx.variables[expr.name]
+      return getPath(ctx.variables[expr.name], expr.path)
 
     case 'param':
       return ctx.params[expr.paramName]
@@ -39,13 +28,13 @@ export function evaluateExpression(
       return ctx.query[expr.paramName]
 
     case 'body':
-      return ctx.body[expr.fieldName]
+      return getPath(ctx.body[expr.fieldName], expr.path)
 
     case 'header':
       return ctx.headers[expr.headerName.toLowerCase()]
 
     case 'sql':
-      return evaluateSql(expr.query, expr.args, ctx)
+      return evaluateSql(expr, ctx)
 
     case 'if':
       return evaluateIf(expr.branches, expr.elseValue, ctx)
@@ -53,58 +42,295 @@ export function evaluateExpression(
     case 'json':
       return expr.value
 
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(expr.properties).map(([key, value]) => [
+          key,
+          evaluateExpression(value, ctx) ?? null,
+        ])
+      )
+
+    case 'array':
+      return expr.items.map((item) => evaluateExpression(item, ctx) ?? null)
+
     case 'html':
       return expr.value
 
     case 'concat':
       return expr.parts.map((part) => evaluateExpression(part, ctx)).join('')
 
+    case 'env':
+      return (
+        process.env[expr.name] ??
+        (expr.fallback ? evaluateExpression(expr.fallback, ctx) : null)
+      )
+
+    case 'jwt':
+      return verifyJwt(
+        evaluateExpression(expr.token, ctx),
+        evaluateExpression(expr.secret, ctx)
+      )
+
+    case 'arithmetic':
+      return evaluateArithmetic(
+        expr.operator,
+        toNumber(evaluateExpression(expr.left, ctx)),
+        toNumber(evaluateExpression(expr.right, ctx))
+      )
+
+    case 'math':
+      return evaluateMath(
+        expr.fn,
+        expr.args.map((arg) => toNumber(evaluateExpression(arg, ctx)))
+      )
+
+    case 'string':
+      return evaluateString(
+        expr.fn,
+        expr.args.map((arg) => evaluateExpression(arg, ctx))
+      )
+
+    case 'cast':
+      return cast(expr.to, evaluateExpression(expr.value, ctx))
+
     default:
       return null
   }
 }
 
 function evaluateSql(
-  query: string,
-  args: Expression[],
+  expr: Extract<Expression, { type: 'sql' }>,
   ctx: RequestContext
 ): unknown {
-  if (!db) {
-    return { error: 'Database not configured' }
+  const { query, args, namedArgs, mode, connection } = expr
+  const database = ctx.database?.get(connection) ?? null
+
+  if (!database) {
+    return {
+      error: connection
+        ? `Database ${connection} not configured`
+        : 'Database not configured',
+    }
   }
 
-  const evaluatedArgs = args.map((arg) => evaluateExpression(arg, ctx))
+  const params = namedArgs
+    ? Object.fromEntries(
+        Object.entries(namedArgs).map(([name, arg]) => [
+          name,
+          evaluateExpression(arg, ctx),
+        ])
+      )
+    : args.map((arg) => evaluateExpression(arg, ctx))
+  const argCount = namedArgs ? Object.keys(namedArgs).length : args.length
 
   try {
-    const stmt = db.prepare(query)
+    switch (mode) {
+      case 'one':
+        return database.queryOne(query, params)
+
+      case 'all':
+        return database.queryAll(query, params)
+
+      case 'value': {
+        const row = database.queryOne(query, params)
+        return row ? (Object.values(row)[0] ?? null) : null
+      }
 
-    if (query.trim().toUpperCase().startsWith('SELECT')) {
-      if (query.includes('LIMIT 1') || args.length === 1) {
-        const result = stmt.get(...evaluatedArgs)
-        return result || null
+      case 'run':
+        return database.run(query, params)
+    }
+
+    const statement = query.trim().toUpperCase()
+
+    if (statement.startsWith('SELECT')) {
+      if (query.includes('LIMIT 1') || argCount === 1) {
+        return database.queryOne(query, params)
       }
-      return stmt.all(...evaluatedArgs)
+      return database.queryAll(query, params)
     }
 
-    if (query.trim().toUpperCase().startsWith('INSERT')) {
-      const result = stmt.run(...evaluatedArgs)
-      return { id: result.lastInsertRowid, changes: result.changes }
+    if (statement.startsWith('INSERT')) {
+      return database.run(query, params)
     }
 
-    if (
-      query.trim().toUpperCase().startsWith('UPDATE') ||
-      query.trim().toUpperCase().startsWith('DELETE')
-    ) {
-      const result = stmt.run(...evaluatedArgs)
-      return { changes: result.changes }
+    if (statement.startsWith('UPDATE') || statement.startsWith('DELETE')) {
+      return { changes: database.run(query, params).changes }
     }
 
-    return stmt.run(...evaluatedArgs)
+    return database.run(query, params)
   } catch (error) {
+    if (ctx.database?.inTransaction()) throw error
     return { error: error instanceof Error ? error.message : 'Unknown error' }
   }
 }
 
+/**
+ * Follows a property path into a value. Only own properties are read, and a
+ * missing segment gives null.
+ */
+function getPath(value: unknown, path?: PathSegment[]): unknown {
+  if (!path) return value
+
+  let current = value
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) return null
+    if (!Object.hasOwn(current, segment)) return null
+    current = (current as Record<PathSegment, unknown>)[segment]
+  }
+
+  return current ?? null
+}
+
+function evaluateArithmetic(
+  operator: ArithmeticOperator,
+  left: number | null,
+  right: number | null
+): number | null {
+  if (left === null || right === null) return null
+
+  switch (operator) {
+    case '+':
+      return finite(left + right)
+    case '-':
+      return finite(left - right)
+    case '*':
+      return finite(left * right)
+    case '/':
+      return finite(left / right)
+    case '%':
+      return finite(left % right)
+  }
+}
+
+function evaluateMath(
+  fn: MathFunction,
+  args: (number | null)[]
+): number | null {
+  if (args.some((arg) => arg === null)) return null
+  const [value, step = 1] = args as number[]
+
+  switch (fn) {
+    case 'min':
+      return Math.min(...(args as number[]))
+    case 'max':
+      return Math.max(...(args as number[]))
+    case 'round':
+      // toPrecision drops float noise such as 0.30000000000000004
+      return finite(Number((Math.round(value / step) * step).toPrecision(15)))
+    case 'floor':
+      return Math.floor(value)
+    case 'ceil':
+      return Math.ceil(value)
+    case 'abs':
+      return Math.abs(value)
+  }
+}
+
+// pad-start() lengths often come from the request, so they are capped to
+// keep a single request from allocating huge strings.
+const MAX_PAD_LENGTH = 1000
+
+/**
+ * String functions return null when their first argument is null or
+ * undefined, e.g. a missing query parameter, so if() can tell it apart.
+ */
+function evaluateString(fn: StringFunction, args: unknown[]): unknown {
+  const [value] = args
+  if (value === null || value === undefined) return null
+
+  const text = toText(value)
+
+  switch (fn) {
+    case 'upper':
+      return text.toUpperCase()
+    case 'lower':
+      return text.toLowerCase()
+    case 'trim':
+      return text.trim()
+    case 'replace': {
+      // An empty pattern would match between every character.
+      const pattern = toText(args[1])
+      return pattern ? text.replaceAll(pattern, toText(args[2])) : text
+    }
+    case 'substring': {
+      const start = toNumber(args[1]) ?? 0
+      const end = toNumber(args[2])
+      return end === null ? text.slice(start) : text.slice(start, end)
+    }
+    case 'length':
+      return Array.isArray(value) ? value.length : text.length
+    case 'split':
+      return text.split(toText(args[1]))
+    case 'join':
+      return Array.isArray(value)
+        ? value.map(toText).join(args.length > 1 ? toText(args[1]) : ',')
+        : text
+    case 'pad-start': {
+      const length = toNumber(args[1]) ?? -1
+      if (!Number.isInteger(length) || length < 0 || length > MAX_PAD_LENGTH) {
+        return null
+      }
+      return text.padStart(length, args.length > 2 ? toText(args[2]) : ' ')
+    }
+    case 'slugify':
+      return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+  }
+}
+
+const FALSE_STRINGS = ['', '0', 'false', 'no', 'off']
+
+function cast(to: CastType, value: unknown): unknown {
+  switch (to) {
+    case 'number':
+      return typeof value === 'boolean' ? Number(value) : toNumber(value)
+
+    case 'int': {
+      const number =
+        typeof value === 'boolean' ? Number(value) : toNumber(value)
+      return number === null ? null : Math.trunc(number)
+    }
+
+    case 'bool':
+      if (typeof value === 'string') {
+        return !FALSE_STRINGS.includes(value.trim().toLowerCase())
+      }
+      return isTruthy(value)
+
+    case 'string':
+      return value === null || value === undefined ? null : toText(value)
+
+    case 'json':
+      if (typeof value !== 'string') return value ?? null
+      try {
+        return JSON.parse(value)
+      } catch {
+        return null
+      }
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/** Numbers and numeric strings such as param() values; otherwise null. */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return finite(value)
+  if (typeof value === 'string' && value.trim()) return finite(Number(value))
+  return null
+}
+
+function finite(value: number): number | null {
+  return Number.isFinite(value) ? value : null
+}
+
 function evaluateIf(
   branches: { condition: Condition; value: Expression }[],
   elseValue: Expression | undefined,
@@ -125,47 +351,47 @@ function evaluateIf(
 
 function evaluateCondition(condition: Condition, ctx: RequestContext): boolean {
   switch (condition.type) {
-    case 'truthy': {
-      const value = ctx.variables[condition.varName]
-      if (value === null || value === undefined) return false
-      if (typeof value === 'boolean') return value
-      if (typeof value === 'number') return value !== 0
-      if (typeof value === 'string') return value.length > 0
-      if (Array.isArray(value)) return value.length > 0
-      if (typeof value === 'object') {
-        return Object.keys(value as Record<string, unknown>).length > 0
-      }
-      return true
-    }
+    case 'truthy':
+      return isTruthy(getPath(ctx.variables[condition.varName], condition.path))
 
-    case 'equals': {
-      const value = ctx.variables[condition.varName]
-      return value === condition.value
-    }
+    case 'equals':
+      return looselyEquals(
+        getPath(ctx.variables[condition.varName], condition.path),
+        condition.value
+      )
 
-    case 'notEquals': {
-      const value = ctx.variables[condition.varName]
-      return value !== condition.value
-    }
+    case 'notEquals':
+      return !looselyEquals(
+        getPath(ctx.variables[condition.varName], condition.path),
+        condition.value
+      )
 
     case 'greaterThan': {
-      const value = ctx.variables[condition.varName]
-      return typeof value === 'number' && value > condition.value
+      const value = toNumber(
+        getPath(ctx.variables[condition.varName], condition.path)
+      )
+      return value !== null && value > condition.value
     }
 
     case 'lessThan': {
-      const value = ctx.variables[condition.varName]
-      return typeof value === 'number' && value < condition.value
+      const value = toNumber(
+        getPath(ctx.variables[condition.varName], condition.path)
+      )
+      return value !== null && value < condition.value
     }
 
     case 'greaterOrEqual': {
-      const value = ctx.variables[condition.varName]
-      return typeof value === 'number' && value >= condition.value
+      const value = toNumber(
+        getPath(ctx.variables[condition.varName], condition.path)
+      )
+      return value !== null && value >= condition.value
     }
 
     case 'lessOrEqual': {
-      const value = ctx.variables[condition.varName]
-      return typeof value === 'number' && value <= condition.value
+      const value = toNumber(
+        getPath(ctx.variables[condition.varName], condition.path)
+      )
+      return value !== null && value <= condition.value
     }
 
     case 'and':
@@ -181,3 +407,25 @@ function evaluateCondition(condition: Condition, ctx: RequestContext): boolean {
       return false
   }
 }
+
+function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  if (typeof value === 'string') return value.length > 0
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>).length > 0
+  }
+  return true
+}
+
+/**
+ * Compares numbers numerically, so "1" from param() equals 1, and anything
+ * else by its string value, so true equals `true`. Null equals nothing.
+ */
+function looselyEquals(value: unknown, expected: string | number): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof expected === 'number') return toNumber(value) === expected
+  return toText(value) === expected
+}
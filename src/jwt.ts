@@ -0,0 +1,106 @@
+import crypto from 'crypto'
+
+export type JwtClaims = Record<string, unknown>
+
+/**
+ * Verifies a compact JWS token and returns its claims, or null when the token
+ * is malformed, the signature does not match, or `exp`/`nbf` reject it.
+ *
+ * A PEM public key selects RS256 and anything else is used as an HS256
+ * secret. The algorithm is decided by the key, never by the token header, so
+ * a token cannot downgrade RS256 verification to HMAC or to `none`.
+ */
+export function verifyJwt(
+  token: unknown,
+  secret: unknown,
+  now: number = Date.now()
+): JwtClaims | null {
+  if (typeof token !== 'string' || typeof secret !== 'string' || !secret) {
+    return null
+  }
+
+  const parts = token
+    .replace(/^Bearer\s+/i, '')
+    .trim()
+    .split('.')
+  if (parts.length !== 3) return null
+
+  const [encodedHeader, encodedPayload, signature] = parts
+  const header = decodeSegment(encodedHeader)
+  const claims = decodeSegment(encodedPayload)
+  if (!header || !claims) return null
+
+  const algorithm = secret.includes('-----BEGIN') ? 'RS256' : 'HS256'
+  if (header.alg !== algorithm) return null
+
+  const signed = `${encodedHeader}.${encodedPayload}`
+  const valid =
+    algorithm === 'HS256'
+      ? verifyHmac(signed, signature, secret)
+      : verifyRsa(signed, signature, secret)
+  if (!valid) return null
+
+  const seconds = Math.floor(now / 1000)
+  if (typeof claims.exp === 'number' && seconds >= claims.exp) return null
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf) return null
+
+  return claims
+}
+
+/** Creates an HS256 token, used by tests and for local development. */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const header = encodeSegment({ alg: 'HS256', typ: 'JWT' })
+  const payload = encodeSegment(claims)
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url')
+
+  return `${header}.${payload}.${signature}`
+}
+
+function verifyHmac(
+  signed: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = crypto.createHmac('sha256', secret).update(signed).digest()
+  const actual = Buffer.from(signature, 'base64url')
+
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  )
+}
+
+function verifyRsa(
+  signed: string,
+  signature: string,
+  publicKey: string
+): boolean {
+  try {
+    return crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(signed),
+      publicKey,
+      Buffer.from(signature, 'base64url')
+    )
+  } catch {
+    return false
+  }
+}
+
+function encodeSegment(value: JwtClaims): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function decodeSegment(segment: string): JwtClaims | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString())
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value
+      : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Library entry point, published as `butcss/lib`, for embedding the server
+ * in a JS program or registering database drivers before the app is created.
+ */
+
+export {
+  createMemoryAdapter,
+  createSqliteAdapter,
+  registerDriver,
+} from './drivers.js'
+export type {
+  DatabaseAdapter,
+  DatabaseDriver,
+  SqlParams,
+  SqlRow,
+  SqlRunResult,
+} from './drivers.js'
+export { loadCSSFile } from './loader.js'
+export type { LoadedCSS } from './loader.js'
+export { parseCSS } from './parser.js'
+export { createApp, startServer } from './runtime.js'
+export type { AppOptions, CSSApp } from './runtime.js'
+export type { Diagnostic, ParsedCSS, ServerConfig } from './types.js'
@@ -0,0 +1,136 @@
+import fs from 'fs'
+import path from 'path'
+import { AtRule, Root } from 'postcss'
+import { ParsedSource, getLocation, parseRoot, parseSource } from './parser.js'
+import { ConnectionSchema, Diagnostic, Migration, ParsedCSS } from './types.js'
+
+export interface LoadedCSS extends ParsedCSS {
+  /** Absolute paths of every file that was read, entry file first. */
+  files: string[]
+}
+
+interface LoadState {
+  files: string[]
+  schemas: string[]
+  connectionSchemas: ConnectionSchema[]
+  migrations: Migration[]
+  seeds: string[]
+  diagnostics: Diagnostic[]
+}
+
+export function loadCSSFile(file: string): LoadedCSS {
+  const state: LoadState = {
+    files: [],
+    schemas: [],
+    connectionSchemas: [],
+    migrations: [],
+    seeds: [],
+    diagnostics: [],
+  }
+  const root = loadSource(path.resolve(file), [], state)
+
+  const parsed = parseRoot({
+    root,
+    schema: state.schemas.join('\n\n') || undefined,
+    connectionSchemas: state.connectionSchemas,
+    migrations: state.migrations,
+    seed: state.seeds.join('\n\n') || undefined,
+    diagnostics: state.diagnostics,
+  })
+
+  return { ...parsed, files: state.files }
+}
+
+function loadSource(
+  filePath: string,
+  chain: string[],
+  state: LoadState
+): Root | null {
+  state.files.push(filePath)
+
+  const source = parseSource(fs.readFileSync(filePath, 'utf8'), filePath)
+  state.diagnostics.push(...source.diagnostics)
+
+  if (!source.root) {
+    collectSqlBlocks(source, state)
+    return null
+  }
+
+  const imports: AtRule[] = []
+  source.root.each((node) => {
+    if (node.type === 'atrule' && node.name === 'import') imports.push(node)
+  })
+
+  for (const atRule of imports) {
+    const importPath = parseImportPath(atRule.params)
+
+    if (!importPath) {
+      report(state, atRule, `Malformed @import ${atRule.params}`)
+      atRule.remove()
+      continue
+    }
+
+    const resolved = path.resolve(path.dirname(filePath), importPath)
+    const stack = [...chain, filePath]
+
+    if (stack.includes(resolved)) {
+      const cycle = [...stack.slice(stack.indexOf(resolved)), resolved]
+      report(
+        state,
+        atRule,
+        `Import cycle: ${cycle.map((item) => displayPath(item)).join(' -> ')}`
+      )
+      atRule.remove()
+      continue
+    }
+
+    // A file reached twice through different branches is only included once.
+    if (state.files.includes(resolved)) {
+      atRule.remove()
+      continue
+    }
+
+    if (!fs.existsSync(resolved)) {
+      report(state, atRule, `Imported file not found: ${displayPath(resolved)}`)
+      atRule.remove()
+      continue
+    }
+
+    const imported = loadSource(resolved, stack, state)
+
+    if (imported) {
+      atRule.replaceWith(imported.nodes)
+    } else {
+      atRule.remove()
+    }
+  }
+
+  // Imported SQL blocks come first, as they are inlined above the rest of
+  // this file.
+  collectSqlBlocks(source, state)
+
+  return source.root
+}
+
+function collectSqlBlocks(source: ParsedSource, state: LoadState): void {
+  if (source.schema) state.schemas.push(source.schema)
+  state.connectionSchemas.push(...source.connectionSchemas)
+  if (source.seed) state.seeds.push(source.seed)
+  state.migrations.push(...source.migrations)
+}
+
+function parseImportPath(params: string): string | null {
+  const match = params.match(/^(?:url\(\s*)?["']([^"']+)["']\s*\)?/)
+  if (match) return match[1]
+
+  const urlMatch = params.match(/^url\(\s*([^)\s]+)\s*\)/)
+  return urlMatch ? urlMatch[1] : null
+}
+
+function displayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath) || filePath
+}
+
+function report(state: LoadState, atRule: AtRule, message: string): void {
+  state.diagnostics.push({ severity: 'error', message, ...getLocation(atRule) })
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto'
+import { DatabaseAdapter } from './drivers.js'
+import { Migration } from './types.js'
+
+export type MigrationState = 'applied' | 'pending' | 'changed'
+
+export interface MigrationStatus {
+  name: string
+  state: MigrationState
+  appliedAt?: string
+}
+
+interface AppliedMigration {
+  name: string
+  checksum: string
+  applied_at: string
+}
+
+const MIGRATIONS_TABLE = '_migrations'
+
+/**
+ * Applies pending migrations in order, each in its own transaction, and
+ * records them in `_migrations`. Throws before applying anything when an
+ * applied migration no longer matches its recorded checksum. Without
+ * migrations the database is not touched, so no `_migrations` table appears.
+ */
+export function applyMigrations(
+  db: DatabaseAdapter,
+  migrations: Migration[]
+): string[] {
+  if (!migrations.length) return []
+
+  ensureMigrationsTable(db)
+  const statuses = getMigrationStatus(db, migrations)
+  const changed = statuses.filter((status) => status.state === 'changed')
+
+  if (changed.length) {
+    throw new Error(
+      `Applied migrations have changed: ${changed
+        .map((status) => status.name)
+        .join(', ')}. Add a new @migration instead of editing an applied one.`
+    )
+  }
+
+  const pending = migrations.filter(
+    (_, index) => statuses[index].state === 'pending'
+  )
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.sql)
+      db.run(
+        `INSERT INTO ${MIGRATIONS_TABLE} (name, checksum, applied_at) VALUES (?, ?, ?)`,
+        [migration.name, checksum(migration), new Date().toISOString()]
+      )
+    })
+  }
+
+  return pending.map((migration) => migration.name)
+}
+
+/**
+ * Reads which migrations are applied without writing anything. Pass null for
+ * a database that does not exist yet; every migration is then pending.
+ */
+export function getMigrationStatus(
+  db: DatabaseAdapter | null,
+  migrations: Migration[]
+): MigrationStatus[] {
+  const rows = (db && readAppliedMigrations(db)) ?? []
+  const applied = new Map(rows.map((row) => [row.name, row]))
+
+  return migrations.map((migration) => {
+    const row = applied.get(migration.name)
+    if (!row) return { name: migration.name, state: 'pending' }
+
+    return {
+      name: migration.name,
+      state: row.checksum === checksum(migration) ? 'applied' : 'changed',
+      appliedAt: row.applied_at,
+    }
+  })
+}
+
+// Reading the table instead of the database's catalog keeps this working on
+// any driver; a failing read means the table has not been created yet.
+function readAppliedMigrations(db: DatabaseAdapter): AppliedMigration[] | null {
+  try {
+    return db.queryAll(
+      `SELECT name, checksum, applied_at FROM ${MIGRATIONS_TABLE}`
+    ) as unknown as AppliedMigration[]
+  } catch {
+    return null
+  }
+}
+
+function ensureMigrationsTable(db: DatabaseAdapter): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      name TEXT PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `)
+}
+
+function checksum(migration: Migration): string {
+  return crypto.createHash('sha256').update(migration.sql.trim()).digest('hex')
+}
@@ -1,16 +1,72 @@
-import postcss, { AtRule, Root } from 'postcss'
+import postcss, {
+  AtRule,
+  Container,
+  CssSyntaxError,
+  Node,
+  Root,
+  Rule,
+} from 'postcss'
+import { validateRoutes } from './diagnostics.js'
 import {
+  ArithmeticOperator,
+  AuthRule,
+  CacheRule,
+  CastType,
   Condition,
+  ConnectionSchema,
+  CorsConfig,
+  DEFAULT_CONNECTION,
+  Diagnostic,
+  DiagnosticSeverity,
   Expression,
+  FieldValidation,
   HttpMethod,
   IfBranch,
+  JsonValue,
+  MathFunction,
+  MiddlewareRule,
+  Migration,
   ParsedCSS,
+  PathSegment,
+  RateLimit,
+  RateLimitConfig,
+  ResponseHeader,
   RouteRule,
   ServerConfig,
+  SourceLocation,
+  SqlMode,
+  StringFunction,
+  ValidationSource,
+  ValidationType,
   VariableAssignment,
 } from './types.js'
 
-const _HTTP_METHODS: HttpMethod[] = [
+interface ParseContext {
+  diagnostics: Diagnostic[]
+  location: SourceLocation
+}
+
+interface InheritedBody {
+  rateLimit?: RateLimit
+  auth?: AuthRule
+  validations: FieldValidation[]
+  variables: VariableAssignment[]
+  headers: ResponseHeader[]
+}
+
+interface RouteScope extends InheritedBody {
+  path: string
+}
+
+interface RuleBody extends InheritedBody {
+  status?: RouteRule['status']
+  cache?: RouteRule['cache']
+  invalidate?: RouteRule['invalidate']
+  transaction?: RouteRule['transaction']
+  return?: RouteRule['return']
+}
+
+const HTTP_METHODS: HttpMethod[] = [
   'GET',
   'POST',
   'PUT',
@@ -20,25 +76,291 @@ const _HTTP_METHODS: HttpMethod[] = [
   'OPTIONS',
 ]
 
+const VALIDATION_SOURCES: ValidationSource[] = [
+  'body',
+  'query',
+  'param',
+  'header',
+]
+
+const VALIDATION_TYPES: ValidationType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+]
+
+const NUMERIC_CONSTRAINTS: Record<
+  string,
+  'minLength' | 'maxLength' | 'min' | 'max'
+> = {
+  'min-length': 'minLength',
+  'max-length': 'maxLength',
+  min: 'min',
+  max: 'max',
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+const SQL_MODES: SqlMode[] = ['one', 'all', 'value', 'run']
+
+const MATH_FUNCTIONS: MathFunction[] = [
+  'min',
+  'max',
+  'round',
+  'floor',
+  'ceil',
+  'abs',
+]
+
+/** Smallest and largest number of arguments of each string function. */
+const STRING_FUNCTIONS: Record<StringFunction, [number, number]> = {
+  upper: [1, 1],
+  lower: [1, 1],
+  trim: [1, 1],
+  replace: [3, 3],
+  substring: [2, 3],
+  length: [1, 1],
+  split: [2, 2],
+  join: [1, 2],
+  'pad-start': [2, 3],
+  slugify: [1, 1],
+}
+
+const CAST_FUNCTIONS: Record<string, CastType> = {
+  number: 'number',
+  int: 'int',
+  bool: 'bool',
+  string: 'string',
+  'json-parse': 'json',
+}
+
+const EXPRESSION_FUNCTIONS = [
+  'sql',
+  ...SQL_MODES.map((mode) => `sql-${mode}`),
+  'param',
+  'query',
+  'body',
+  'header',
+  'var',
+  'if',
+  'concat',
+  'env',
+  'jwt',
+  'calc',
+  ...MATH_FUNCTIONS,
+  ...Object.keys(STRING_FUNCTIONS),
+  ...Object.keys(CAST_FUNCTIONS),
+]
+
+export interface ParsedSource {
+  root: Root | null
+  schema?: string
+  connectionSchemas: ConnectionSchema[]
+  migrations: Migration[]
+  seed?: string
+  diagnostics: Diagnostic[]
+}
+
 export function parseCSS(css: string): ParsedCSS {
-  const extracted = extractDatabaseSchema(css)
-  const root = postcss.parse(extracted.cleaned)
+  return parseRoot(parseSource(css))
+}
 
-  const config = parseServerConfig(root)
-  const routes = parseRoutes(root)
+/**
+ * Parses one stylesheet into a PostCSS root without interpreting it, so that
+ * the loader can splice imported roots in before routes are extracted.
+ */
+export function parseSource(css: string, from?: string): ParsedSource {
+  const extracted = extractSqlBlocks(css, from)
 
-  return { config, routes, schema: extracted.schema }
+  try {
+    const root = postcss.parse(extracted.cleaned, { from })
+    return {
+      root,
+      schema: extracted.schema,
+      connectionSchemas: extracted.connectionSchemas,
+      migrations: extracted.migrations,
+      seed: extracted.seed,
+      diagnostics: [],
+    }
+  } catch (error) {
+    if (!(error instanceof CssSyntaxError)) throw error
+    return {
+      root: null,
+      schema: extracted.schema,
+      connectionSchemas: extracted.connectionSchemas,
+      migrations: extracted.migrations,
+      seed: extracted.seed,
+      diagnostics: [
+        {
+          severity: 'error',
+          message: error.reason,
+          line: error.line ?? 1,
+          column: error.column ?? 1,
+          ...(from ? { file: from } : {}),
+        },
+      ],
+    }
+  }
 }
 
-function extractDatabaseSchema(css: string): {
+export function parseRoot(source: ParsedSource): ParsedCSS {
+  const diagnostics = [
+    ...source.diagnostics,
+    ...validateMigrations(source.migrations),
+  ]
+
+  if (!source.root) {
+    return {
+      config: { port: 3000 },
+      routes: [],
+      middleware: [],
+      cors: [],
+      rateLimits: [],
+      schema: source.schema,
+      migrations: source.migrations,
+      seed: source.seed,
+      diagnostics,
+    }
+  }
+
+  const config = parseServerConfig(source.root)
+  const routes = parseRoutes(source.root, diagnostics)
+  const middleware = parseMiddleware(source.root, diagnostics)
+  const cors = parseCors(source.root, diagnostics)
+  const rateLimits = parseRateLimits(source.root, diagnostics)
+  const connections = getConnectionNames(config)
+  const schemas = resolveConnectionSchemas(source, connections, diagnostics)
+
+  if (source.migrations.length && !config.database) {
+    diagnostics.push({
+      severity: 'warning',
+      message: '@migration blocks are ignored: @server has no database',
+      ...(source.migrations[0].source ?? { line: 1, column: 1 }),
+    })
+  }
+
+  if (source.seed && !config.database) {
+    diagnostics.push({
+      severity: 'warning',
+      message: '@seed blocks are ignored: @server has no database',
+      line: 1,
+      column: 1,
+    })
+  }
+
+  source.root.walkAtRules('import', (atRule) => {
+    diagnostics.push({
+      severity: 'warning',
+      message: `@import ${atRule.params} is ignored: imports are only resolved when loading from a file`,
+      ...getLocation(atRule),
+    })
+  })
+
+  diagnostics.push(
+    ...validateRoutes(routes, middleware, rateLimits, connections)
+  )
+  diagnostics.sort(
+    (a, b) =>
+      (a.file ?? '').localeCompare(b.file ?? '') ||
+      a.line - b.line ||
+      a.column - b.column
+  )
+
+  return {
+    config,
+    routes,
+    middleware,
+    cors,
+    rateLimits,
+    ...schemas,
+    migrations: source.migrations,
+    seed: source.seed,
+    diagnostics,
+  }
+}
+
+function getConnectionNames(config: ServerConfig): string[] {
+  if (config.databases) return Object.keys(config.databases)
+  return config.database ? [DEFAULT_CONNECTION] : []
+}
+
+/**
+ * `@database <name>` blocks for the default connection join the unnamed
+ * schema; the others are merged per connection.
+ */
+function resolveConnectionSchemas(
+  source: ParsedSource,
+  connections: string[],
+  diagnostics: Diagnostic[]
+): Pick<ParsedCSS, 'schema' | 'schemas'> {
+  const defaultSchemas = source.schema ? [source.schema] : []
+  const schemas: Record<string, string[]> = {}
+
+  for (const block of source.connectionSchemas) {
+    if (!connections.includes(block.connection)) {
+      diagnostics.push({
+        severity: 'error',
+        message: `@database ${block.connection}: no database connection named "${block.connection}" in @server`,
+        ...(block.source ?? { line: 1, column: 1 }),
+      })
+    } else if (!block.sql) {
+      continue
+    } else if (block.connection === connections[0]) {
+      defaultSchemas.push(block.sql)
+    } else {
+      schemas[block.connection] = [
+        ...(schemas[block.connection] ?? []),
+        block.sql,
+      ]
+    }
+  }
+
+  const named = Object.entries(schemas)
+  return {
+    schema: defaultSchemas.join('\n\n') || undefined,
+    ...(named.length
+      ? {
+          schemas: Object.fromEntries(
+            named.map(([name, blocks]) => [name, blocks.join('\n\n')])
+          ),
+        }
+      : {}),
+  }
+}
+
+/**
+ * `@database`, `@migration` and `@seed` bodies are SQL, which PostCSS cannot
+ * parse, so they are cut out of the source text first. `@database` and
+ * `@seed` blocks are each merged into one script; migrations keep their file
+ * order.
+ */
+function extractSqlBlocks(
+  css: string,
+  file?: string
+): {
   schema?: string
+  connectionSchemas: ConnectionSchema[]
+  migrations: Migration[]
+  seed?: string
   cleaned: string
 } {
-  let schema: string | undefined
+  const schemas: string[] = []
+  const connectionSchemas: ConnectionSchema[] = []
+  const migrations: Migration[] = []
+  const seeds: string[] = []
   let cleaned = css
-  let index = cleaned.indexOf('@database')
+  const pattern = /@(database|migration|seed)\b/g
+  let match: RegExpExecArray | null
 
-  while (index !== -1) {
+  while ((match = pattern.exec(cleaned)) !== null) {
+    const index = match.index
     const startBrace = cleaned.indexOf('{', index)
     if (startBrace === -1) break
 
@@ -56,32 +378,98 @@ function extractDatabaseSchema(css: string): {
 
     if (endBrace === -1) break
 
-    if (!schema) {
-      schema = cleaned.slice(startBrace + 1, endBrace).trim()
+    const params = cleaned.slice(index + match[0].length, startBrace).trim()
+    const body = cleaned.slice(startBrace + 1, endBrace).trim()
+    const before = css.slice(0, index)
+    const source: SourceLocation = {
+      line: before.split('\n').length,
+      column: index - before.lastIndexOf('\n'),
+      ...(file ? { file } : {}),
+    }
+
+    if (match[1] === 'database') {
+      if (params) {
+        connectionSchemas.push({ connection: params, sql: body, source })
+      } else if (body) {
+        schemas.push(body)
+      }
+    } else if (match[1] === 'seed') {
+      if (body) seeds.push(body)
+    } else {
+      migrations.push({ name: parseStringValue(params), sql: body, source })
+    }
+
+    // Blank the block out instead of removing it so that line and column
+    // positions reported by PostCSS still match the original source.
+    const blanked = cleaned.slice(index, endBrace + 1).replace(/[^\n]/g, ' ')
+    cleaned = cleaned.slice(0, index) + blanked + cleaned.slice(endBrace + 1)
+    pattern.lastIndex = endBrace + 1
+  }
+
+  return {
+    schema: schemas.join('\n\n') || undefined,
+    connectionSchemas,
+    migrations,
+    seed: seeds.join('\n\n') || undefined,
+    cleaned,
+  }
+}
+
+function validateMigrations(migrations: Migration[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const seen = new Set<string>()
+
+  for (const migration of migrations) {
+    const location = migration.source ?? { line: 1, column: 1 }
+
+    if (!migration.name) {
+      diagnostics.push({
+        severity: 'error',
+        message: '@migration requires a name, e.g. @migration "001-init"',
+        ...location,
+      })
+    } else if (seen.has(migration.name)) {
+      diagnostics.push({
+        severity: 'error',
+        message: `Duplicate @migration "${migration.name}"`,
+        ...location,
+      })
+    }
+
+    if (!migration.sql) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `@migration "${migration.name}" is empty`,
+        ...location,
+      })
     }
 
-    cleaned = cleaned.slice(0, index) + cleaned.slice(endBrace + 1)
-    index = cleaned.indexOf('@database')
+    seen.add(migration.name)
   }
 
-  return { schema: schema || undefined, cleaned }
+  return diagnostics
 }
 
 function parseServerConfig(root: Root): ServerConfig {
   const config: ServerConfig = { port: 3000 }
 
   root.walkAtRules('server', (atRule) => {
-    atRule.walkDecls((decl) => {
+    atRule.each((decl) => {
+      if (decl.type !== 'decl') return
+
       switch (decl.prop) {
         case 'port':
           config.port = parseEnvOrNumber(decl.value, 3000)
           break
         case 'database':
-          config.database = parseEnvOrString(decl.value)
+          parseDatabase(config, decl.value)
           break
         case 'host':
           config.host = parseEnvOrString(decl.value)
           break
+        case 'driver':
+          config.driver = parseEnvOrString(decl.value)
+          break
       }
     })
   })
@@ -89,6 +477,217 @@ function parseServerConfig(root: Root): ServerConfig {
   return config
 }
 
+/**
+ * `@cors` blocks at the top level or inside `@server` apply to every route;
+ * a `[path]` selector limits a top-level block to matching paths.
+ */
+function parseCors(root: Root, diagnostics: Diagnostic[]): CorsConfig[] {
+  const configs: CorsConfig[] = []
+
+  root.walkAtRules('cors', (atRule) => {
+    const source = getLocation(atRule)
+    const ctx: ParseContext = { diagnostics, location: source }
+    const parent = atRule.parent
+    const isGlobal =
+      parent?.type === 'atrule' && (parent as AtRule).name === 'server'
+
+    if (parent?.type !== 'root' && !isGlobal) {
+      report(
+        ctx,
+        'warning',
+        '@cors is ignored: it must be top-level or in @server'
+      )
+      return
+    }
+
+    const { path } = parseSelector(atRule.params)
+    if (atRule.params.trim() && (!path || isGlobal)) {
+      report(ctx, 'error', `Invalid @cors selector ${atRule.params}`)
+      return
+    }
+
+    const config: CorsConfig = {
+      path: path ?? undefined,
+      origins: ['*'],
+      methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'],
+      headers: [],
+      exposeHeaders: [],
+      credentials: false,
+      source,
+    }
+
+    atRule.each((decl) => {
+      if (decl.type !== 'decl') return
+
+      const declCtx: ParseContext = { diagnostics, location: getLocation(decl) }
+      const values = parseList(parseEnvOrString(decl.value))
+
+      switch (decl.prop) {
+        case 'origin':
+          config.origins = values
+          break
+        case 'methods': {
+          const methods = values.map((value) => value.toUpperCase())
+          const invalid = methods.filter(
+            (method) => !HTTP_METHODS.includes(method as HttpMethod)
+          )
+          if (invalid.length) {
+            report(
+              declCtx,
+              'error',
+              `Unknown CORS method ${invalid.join(', ')}`
+            )
+          }
+          config.methods = methods.filter((method): method is HttpMethod =>
+            HTTP_METHODS.includes(method as HttpMethod)
+          )
+          break
+        }
+        case 'headers':
+          config.headers = values
+          break
+        case 'expose-headers':
+          config.exposeHeaders = values
+          break
+        case 'credentials':
+          config.credentials = parseEnvOrString(decl.value) === 'true'
+          break
+        case 'max-age':
+          config.maxAge = parseEnvOrNumber(decl.value, 0)
+          break
+        default:
+          report(declCtx, 'warning', `Unknown @cors property ${decl.prop}`)
+      }
+    })
+
+    if (config.credentials && config.origins.includes('*')) {
+      report(
+        ctx,
+        'error',
+        '@cors credentials need an explicit origin list instead of *'
+      )
+      config.credentials = false
+    }
+
+    configs.push(config)
+  })
+
+  return configs
+}
+
+/**
+ * Top-level `@rate-limit [selector] { limit: 100 / 1m; by: <expr>; }` blocks
+ * apply to every matching request, before `@before` blocks run.
+ */
+function parseRateLimits(
+  root: Root,
+  diagnostics: Diagnostic[]
+): RateLimitConfig[] {
+  const configs: RateLimitConfig[] = []
+
+  root.each((node) => {
+    if (node.type !== 'atrule' || node.name !== 'rate-limit') return
+
+    const ctx: ParseContext = { diagnostics, location: getLocation(node) }
+    const { path, method } = parseSelector(node.params)
+
+    if (node.params.trim() && !path && !method) {
+      report(ctx, 'error', `Invalid @rate-limit selector ${node.params}`)
+      return
+    }
+
+    const config: RateLimitConfig = {
+      limit: 0,
+      windowMs: 0,
+      path: path ?? undefined,
+      method: method ?? undefined,
+      source: ctx.location,
+    }
+    let key: Expression | undefined
+
+    node.each((decl) => {
+      if (decl.type !== 'decl') return
+
+      const declCtx: ParseContext = { diagnostics, location: getLocation(decl) }
+
+      if (decl.prop === 'limit') {
+        Object.assign(config, parseRateLimit(decl.value, declCtx))
+      } else if (decl.prop === 'by') {
+        key = parseExpression(decl.value, declCtx)
+      } else {
+        report(declCtx, 'warning', `Unknown @rate-limit property ${decl.prop}`)
+      }
+    })
+
+    if (!config.limit) {
+      report(ctx, 'error', '@rate-limit requires a limit, e.g. 100 / 1m')
+      return
+    }
+
+    configs.push({ ...config, key: key ?? config.key, source: ctx.location })
+  })
+
+  return configs
+}
+
+/** Parses `<count> / <duration> [by <expression>]`, e.g. `100 / 1m`. */
+function parseRateLimit(value: string, ctx: ParseContext): RateLimit | null {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\S+)(?:\s+by\s+([\s\S]+))?$/)
+  const windowMs = match ? parseDuration(match[2]) : null
+
+  if (!match || !windowMs || Number(match[1]) < 1) {
+    report(
+      ctx,
+      'error',
+      `Invalid rate limit "${value}", expected <count> / <duration>`
+    )
+    return null
+  }
+
+  return {
+    limit: Number(match[1]),
+    windowMs,
+    ...(match[3] ? { key: parseExpression(match[3], ctx) } : {}),
+    source: ctx.location,
+  }
+}
+
+/** Parses `<duration> [vary(header, ...)]`, e.g. `30s vary(authorization)`. */
+function parseCache(value: string, ctx: ParseContext): CacheRule | null {
+  const match = value.trim().match(/^(\S+)(?:\s+vary\(([^)]*)\))?$/)
+  const ttlMs = match ? parseDuration(match[1]) : null
+
+  if (!match || !ttlMs) {
+    report(
+      ctx,
+      'error',
+      `Invalid cache "${value}", expected <duration> [vary(headers)]`
+    )
+    return null
+  }
+
+  return {
+    ttlMs,
+    vary: parseList(match[2] ?? '').map((header) => header.toLowerCase()),
+    source: ctx.location,
+  }
+}
+
+/** Converts `500ms`, `30s`, `5m`, `1h` or `1d` to milliseconds. */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/)
+  if (!match) return null
+
+  return Number(match[1]) * DURATION_UNITS[match[2]]
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((item) => item.replace(/^["']|["']$/g, ''))
+    .filter(Boolean)
+}
+
 function parseEnvOrNumber(value: string, fallback: number): number {
   const envMatch = value.match(/^env\s*\(\s*([^,)]+)(?:\s*,\s*(.+))?\s*\)$/)
   if (envMatch) {
@@ -100,6 +699,28 @@ function parseEnvOrNumber(value: string, fallback: number): number {
   return parseInt(value, 10) || fallback
 }
 
+/**
+ * `database: <path>` sets the default connection and `database: <name>
+ * <path>` declares a named one; the first connection declared is the default.
+ */
+function parseDatabase(config: ServerConfig, value: string): void {
+  const named = value.trim().match(/^([A-Za-z_][\w-]*)\s+(\S.*)$/s)
+
+  if (!named && !config.databases) {
+    config.database = parseEnvOrString(value)
+    return
+  }
+
+  const [name, path] = named
+    ? [named[1], named[2]]
+    : [DEFAULT_CONNECTION, value]
+  config.databases ??= config.database
+    ? { [DEFAULT_CONNECTION]: config.database }
+    : {}
+  config.databases[name] = parseEnvOrString(path)
+  config.database = Object.values(config.databases)[0]
+}
+
 function parseEnvOrString(value: string): string {
   const envMatch = value.match(/^env\s*\(\s*([^,)]+)(?:\s*,\s*(.+))?\s*\)$/)
   if (envMatch) {
@@ -111,45 +732,414 @@ function parseEnvOrString(value: string): string {
   return value.trim().replace(/^["']|["']$/g, '')
 }
 
-function parseRoutes(root: Root): RouteRule[] {
+function parseRoutes(root: Root, diagnostics: Diagnostic[]): RouteRule[] {
   const routes: RouteRule[] = []
 
-  root.walkRules((rule) => {
-    const { path, method } = parseSelector(rule.selector)
-    if (!path || !method) return
+  root.each((node) => {
+    if (node.type === 'rule') {
+      const scope: RouteScope = {
+        path: '',
+        validations: [],
+        variables: [],
+        headers: [],
+      }
+      parseRule(node, scope, routes, diagnostics)
+    }
+  })
+
+  return routes
+}
 
-    const variables: VariableAssignment[] = []
-    let status: RouteRule['status'] | undefined
-    let returnValue: RouteRule['return'] | undefined
+/**
+ * Walks a rule and its nested rules. A rule without an HTTP method acts as a
+ * prefix: its path is prepended to nested paths, and its variables and
+ * headers are applied before those of every nested route.
+ */
+function parseRule(
+  rule: Rule,
+  scope: RouteScope,
+  routes: RouteRule[],
+  diagnostics: Diagnostic[]
+): void {
+  const source = getLocation(rule)
+  const { path, method } = parseSelector(rule.selector)
+
+  const fullPath = path ? joinPaths(scope.path, path) : scope.path
+
+  if ((!path && !method) || !fullPath) {
+    diagnostics.push({
+      severity: 'warning',
+      message: `Rule "${rule.selector}" is ignored: selector has no [path] attribute`,
+      ...source,
+    })
+    return
+  }
 
-    rule.walkDecls((decl) => {
-      if (decl.prop.startsWith('--')) {
-        variables.push({
-          name: decl.prop.slice(2),
-          value: parseExpression(decl.value),
+  const body = parseRuleBody(rule, diagnostics)
+  const inherited: InheritedBody = {
+    rateLimit: body.rateLimit ?? scope.rateLimit,
+    auth: body.auth ?? scope.auth,
+    validations: [...scope.validations, ...body.validations],
+    variables: [...scope.variables, ...body.variables],
+    headers: [...scope.headers, ...body.headers],
+  }
+
+  if (!method) {
+    const hasNestedRules = rule.some((node) => node.type === 'rule')
+    if (body.return || body.status || !hasNestedRules) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `Rule "${rule.selector}" is ignored: selector has no HTTP method`,
+        ...source,
+      })
+    }
+  } else if (body.return) {
+    if (body.cache && method !== 'GET') {
+      diagnostics.push({
+        severity: 'warning',
+        message: `cache is ignored on ${method} ${fullPath}: only GET routes are cached`,
+        ...(body.cache.source ?? source),
+      })
+    }
+
+    routes.push({
+      path: fullPath,
+      method,
+      ...inherited,
+      status: body.status,
+      cache: method === 'GET' ? body.cache : undefined,
+      invalidate: body.invalidate,
+      transaction: body.transaction,
+      return: body.return,
+      source,
+    })
+  } else {
+    diagnostics.push({
+      severity: 'error',
+      message: `Route ${method} ${fullPath} has no @return`,
+      ...source,
+    })
+  }
+
+  rule.each((node) => {
+    if (node.type === 'rule') {
+      parseRule(node, { path: fullPath, ...inherited }, routes, diagnostics)
+    }
+  })
+}
+
+function parseMiddleware(
+  root: Root,
+  diagnostics: Diagnostic[]
+): MiddlewareRule[] {
+  const middleware: MiddlewareRule[] = []
+
+  root.each((node) => {
+    if (node.type !== 'atrule' || node.name !== 'before') return
+
+    const source = getLocation(node)
+    const { path, method } = parseSelector(node.params)
+
+    if (node.params.trim() && !path && !method) {
+      diagnostics.push({
+        severity: 'error',
+        message: `@before ${node.params} has no [path] attribute or HTTP method`,
+        ...source,
+      })
+      return
+    }
+
+    if (node.some((child) => child.type === 'rule')) {
+      diagnostics.push({
+        severity: 'warning',
+        message: 'Nested rules inside @before are ignored',
+        ...source,
+      })
+    }
+
+    const body = parseRuleBody(node, diagnostics)
+
+    const ignored = (['cache', 'invalidate', 'transaction'] as const).filter(
+      (name) => body[name]
+    )
+    if (ignored.length) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} ignored inside @before`,
+        ...source,
+      })
+    }
+
+    middleware.push({
+      path: path ?? undefined,
+      method: method ?? undefined,
+      rateLimit: body.rateLimit,
+      auth: body.auth,
+      validations: body.validations,
+      variables: body.variables,
+      headers: body.headers,
+      status: body.status,
+      return: body.return,
+      source,
+    })
+  })
+
+  return middleware
+}
+
+function parseRuleBody(
+  container: Container,
+  diagnostics: Diagnostic[]
+): RuleBody {
+  const body: RuleBody = { validations: [], variables: [], headers: [] }
+
+  container.each((node) => {
+    if (node.type === 'decl') {
+      const ctx: ParseContext = { diagnostics, location: getLocation(node) }
+
+      if (node.prop.startsWith('--')) {
+        body.variables.push({
+          name: node.prop.slice(2),
+          value: parseExpression(node.value, ctx),
+          source: ctx.location,
         })
-      } else if (decl.prop === 'status') {
-        const parsed = parseExpression(decl.value)
+      } else if (node.prop === 'status') {
+        const parsed = parseExpression(node.value, ctx)
         if (parsed.type === 'literal') {
-          status = { type: 'literal', value: parsed.value as number }
+          body.status = { type: 'literal', value: parsed.value as number }
         } else if (parsed.type === 'var') {
-          status = { type: 'var', value: parsed }
+          body.status = { type: 'var', value: parsed }
         } else if (parsed.type === 'if') {
-          status = { type: 'if', value: parsed }
+          body.status = { type: 'if', value: parsed }
+        }
+      } else if (node.prop === 'cache') {
+        const cache = parseCache(node.value, ctx)
+        if (cache) body.cache = cache
+      } else if (node.prop === 'transaction') {
+        if (node.value.trim() === 'true') {
+          body.transaction = body.transaction ?? { source: ctx.location }
+        } else if (node.value.trim() !== 'false') {
+          report(ctx, 'error', 'transaction must be true or false')
         }
+      } else if (node.prop === 'invalidate') {
+        body.invalidate = parseList(node.value)
+      } else if (node.prop === 'rate-limit') {
+        const rateLimit = parseRateLimit(node.value, ctx)
+        if (rateLimit) body.rateLimit = rateLimit
+      } else if (node.prop.startsWith('header-')) {
+        body.headers.push(
+          parseResponseHeader(node.prop.slice(7), node.value, ctx)
+        )
       }
-    })
+    } else if (node.type === 'atrule' && node.name === 'return') {
+      body.return = parseReturnAtRule(node, {
+        diagnostics,
+        location: getLocation(node),
+      })
+    } else if (node.type === 'atrule' && node.name === 'transaction') {
+      const onError = parseRuleBody(node, diagnostics)
+      body.transaction = {
+        status: onError.status,
+        return: onError.return,
+        source: getLocation(node),
+      }
+    } else if (node.type === 'atrule' && node.name === 'auth') {
+      const auth = parseAuth(node, diagnostics)
+      if (auth) body.auth = auth
+    } else if (node.type === 'atrule' && node.name === 'validate') {
+      node.each((child) => {
+        if (child.type !== 'decl') return
+        const ctx: ParseContext = { diagnostics, location: getLocation(child) }
+        body.validations.push(
+          parseFieldValidation(child.prop, child.value, ctx)
+        )
+      })
+    } else if (node.type === 'atrule' && node.name === 'header') {
+      const ctx: ParseContext = { diagnostics, location: getLocation(node) }
+      const match = node.params.trim().match(/^([^\s]+)\s+([\s\S]+)$/)
+
+      if (match) {
+        body.headers.push(parseResponseHeader(match[1], match[2], ctx))
+      } else {
+        report(
+          ctx,
+          'error',
+          `@header ${node.params} requires a name and a value`
+        )
+      }
+    }
+  })
+
+  return body
+}
 
-    rule.walkAtRules('return', (atRule) => {
-      returnValue = parseReturnAtRule(atRule)
+/**
+ * Parses `@auth jwt { secret: ...; token: ...; variable: --name; }`. The token
+ * defaults to the Authorization header and the claims to `--auth`.
+ */
+function parseAuth(atRule: AtRule, diagnostics: Diagnostic[]): AuthRule | null {
+  const location = getLocation(atRule)
+  const scheme = atRule.params.trim()
+
+  if (scheme !== 'jwt') {
+    diagnostics.push({
+      severity: 'error',
+      message: `Unsupported @auth scheme "${scheme}", expected jwt`,
+      ...location,
     })
+    return null
+  }
 
-    if (returnValue) {
-      routes.push({ path, method, variables, status, return: returnValue })
+  const auth: AuthRule = {
+    scheme,
+    token: { type: 'header', headerName: 'authorization' },
+    secret: { type: 'literal', value: null },
+    variable: 'auth',
+    source: location,
+  }
+  let hasSecret = false
+
+  atRule.each((node) => {
+    if (node.type !== 'decl') return
+    const ctx: ParseContext = { diagnostics, location: getLocation(node) }
+
+    if (node.prop === 'secret') {
+      auth.secret = parseExpression(node.value, ctx)
+      hasSecret = true
+    } else if (node.prop === 'token') {
+      auth.token = parseExpression(node.value, ctx)
+    } else if (node.prop === 'variable' && /^--[\w-]+$/.test(node.value)) {
+      auth.variable = node.value.slice(2)
+    } else if (node.prop === 'variable') {
+      report(ctx, 'error', `@auth variable must be --name, got ${node.value}`)
+    } else {
+      report(ctx, 'error', `Unknown @auth property "${node.prop}"`)
     }
   })
 
-  return routes
+  if (!hasSecret) {
+    diagnostics.push({
+      severity: 'error',
+      message: '@auth jwt requires a secret',
+      ...location,
+    })
+  }
+
+  return auth
+}
+
+/**
+ * Parses `name: <source> [type] [required] [constraint(...)]...` from a
+ * @validate block, e.g. `age: query integer min(0) max(150)`.
+ */
+function parseFieldValidation(
+  name: string,
+  value: string,
+  ctx: ParseContext
+): FieldValidation {
+  const validation: FieldValidation = {
+    name,
+    from: 'body',
+    type: 'string',
+    required: false,
+    source: ctx.location,
+  }
+  const [from, ...tokens] = splitTokens(value)
+
+  if (VALIDATION_SOURCES.includes(from as ValidationSource)) {
+    validation.from = from as ValidationSource
+  } else {
+    report(
+      ctx,
+      'error',
+      `Validation for ${name} must start with ${VALIDATION_SOURCES.join(', ')}`
+    )
+  }
+
+  for (const token of tokens) {
+    const call = token.match(/^([a-z-]+)\(([\s\S]*)\)$/)
+
+    if (VALIDATION_TYPES.includes(token as ValidationType)) {
+      validation.type = token as ValidationType
+    } else if (token === 'required') {
+      validation.required = true
+    } else if (call && call[1] === 'pattern') {
+      const pattern = parseStringValue(call[2])
+      try {
+        new RegExp(pattern)
+        validation.pattern = pattern
+      } catch {
+        report(ctx, 'error', `Invalid pattern for ${name}: ${call[2]}`)
+      }
+    } else if (call && call[1] === 'one-of') {
+      validation.oneOf = parseList(call[2])
+    } else if (call && NUMERIC_CONSTRAINTS[call[1]]) {
+      const limit = Number(call[2].trim())
+      if (call[2].trim() && Number.isFinite(limit)) {
+        validation[NUMERIC_CONSTRAINTS[call[1]]] = limit
+      } else {
+        report(ctx, 'error', `${call[1]}() for ${name} expects a number`)
+      }
+    } else {
+      report(ctx, 'error', `Unknown validation "${token}" for ${name}`)
+    }
+  }
+
+  return validation
+}
+
+function splitTokens(value: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  let depth = 0
+  let inString = false
+  let stringChar = ''
+
+  for (const char of value.trim()) {
+    if ((char === '"' || char === "'") && !inString) {
+      inString = true
+      stringChar = char
+    } else if (char === stringChar && inString) {
+      inString = false
+    } else if (!inString) {
+      if (char === '(') depth++
+      else if (char === ')') depth--
+      else if (/\s/.test(char) && depth === 0) {
+        if (current) tokens.push(current)
+        current = ''
+        continue
+      }
+    }
+
+    current += char
+  }
+
+  if (current) tokens.push(current)
+
+  return tokens
+}
+
+function parseResponseHeader(
+  name: string,
+  value: string,
+  ctx: ParseContext
+): ResponseHeader {
+  if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+    report(ctx, 'error', `Invalid response header name "${name}"`)
+  }
+
+  return {
+    name: name.toLowerCase(),
+    value: parseExpression(value, ctx),
+    source: ctx.location,
+  }
+}
+
+function joinPaths(prefix: string, path: string): string {
+  if (!prefix) return path
+
+  const joined = `${prefix.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+  return joined.length > 1 ? joined.replace(/\/+$/, '') : '/'
 }
 
 function parseSelector(selector: string): {
@@ -167,39 +1157,58 @@ function parseSelector(selector: string): {
   }
 }
 
-function parseReturnAtRule(atRule: AtRule): {
-  type: 'json' | 'html'
-  value: Expression
-} {
+function parseReturnAtRule(
+  atRule: AtRule,
+  ctx: ParseContext
+): RouteRule['return'] {
   const params = atRule.params.trim()
 
-  if (params.startsWith('json(')) {
+  if (params.startsWith('json(') && checkFunctionCall(params, 'json', ctx)) {
     const inner = extractFunctionContent(params, 'json')
     return {
       type: 'json',
-      value: parseExpression(inner),
+      value: parseExpression(inner, ctx),
+      source: ctx.location,
     }
   }
 
-  if (params.startsWith('html(')) {
+  if (params.startsWith('html(') && checkFunctionCall(params, 'html', ctx)) {
     const inner = extractFunctionContent(params, 'html')
     return {
       type: 'html',
-      value: parseExpression(inner),
+      value: parseExpression(inner, ctx),
+      source: ctx.location,
     }
   }
 
   return {
     type: 'json',
-    value: parseExpression(params),
+    value: parseExpression(params, ctx),
+    source: ctx.location,
   }
 }
 
-function parseExpression(value: string): Expression {
+function parseExpression(value: string, ctx: ParseContext): Expression {
   const trimmedValue = value.trim()
 
+  const call = trimmedValue.match(/^([a-zA-Z][\w-]*)\(/)
+  if (call) {
+    const name = call[1]
+    if (!EXPRESSION_FUNCTIONS.includes(name)) {
+      report(ctx, 'error', `Unknown function ${name}()`)
+      return { type: 'literal', value: parseStringValue(trimmedValue) }
+    }
+    if (!checkFunctionCall(trimmedValue, name, ctx)) {
+      return { type: 'literal', value: null }
+    }
+  }
+
   if (trimmedValue.startsWith('sql(')) {
-    return parseSqlExpression(trimmedValue)
+    return parseSqlExpression(trimmedValue, ctx)
+  }
+
+  if (call && call[1].startsWith('sql-')) {
+    return parseSqlExpression(trimmedValue, ctx, call[1].slice(4) as SqlMode)
   }
 
   if (trimmedValue.startsWith('param(')) {
@@ -214,7 +1223,10 @@ function parseExpression(value: string): Expression {
 
   if (trimmedValue.startsWith('body(')) {
     const inner = extractFunctionContent(trimmedValue, 'body')
-    return { type: 'body', fieldName: inner }
+    const { name, path } = parsePath(inner, ctx)
+    return path
+      ? { type: 'body', fieldName: name, path }
+      : { type: 'body', fieldName: name }
   }
 
   if (trimmedValue.startsWith('header(')) {
@@ -224,11 +1236,71 @@ function parseExpression(value: string): Expression {
 
   if (trimmedValue.startsWith('var(')) {
     const inner = extractFunctionContent(trimmedValue, 'var')
-    return { type: 'var', name: inner.replace(/^--/, '') }
+    const { name, path } = parsePath(inner.replace(/^--/, ''), ctx)
+    return path ? { type: 'var', name, path } : { type: 'var', name }
   }
 
   if (trimmedValue.startsWith('if(')) {
-    return parseIfExpression(trimmedValue)
+    return parseIfExpression(trimmedValue, ctx)
+  }
+
+  if (trimmedValue.startsWith('concat(')) {
+    const inner = extractFunctionContent(trimmedValue, 'concat')
+    return { type: 'concat', parts: parseFunctionArgs(inner, ctx) }
+  }
+
+  if (trimmedValue.startsWith('env(')) {
+    const inner = extractFunctionContent(trimmedValue, 'env')
+    const comma = inner.indexOf(',')
+    const name = (comma === -1 ? inner : inner.slice(0, comma)).trim()
+    const fallback = comma === -1 ? '' : inner.slice(comma + 1)
+
+    if (!/^\w+$/.test(name)) {
+      report(ctx, 'error', `env() expects a variable name, got "${name}"`)
+    }
+
+    return fallback.trim()
+      ? { type: 'env', name, fallback: parseExpression(fallback, ctx) }
+      : { type: 'env', name }
+  }
+
+  if (trimmedValue.startsWith('jwt(')) {
+    const inner = extractFunctionContent(trimmedValue, 'jwt')
+    const args = parseFunctionArgs(inner, ctx)
+
+    if (args.length !== 2) {
+      report(ctx, 'error', 'jwt() expects a token and a secret')
+      return { type: 'literal', value: null }
+    }
+
+    return { type: 'jwt', token: args[0], secret: args[1] }
+  }
+
+  if (trimmedValue.startsWith('calc(')) {
+    return parseCalc(extractFunctionContent(trimmedValue, 'calc'), ctx)
+  }
+
+  if (call && MATH_FUNCTIONS.includes(call[1] as MathFunction)) {
+    return parseMathFunction(trimmedValue, call[1] as MathFunction, ctx)
+  }
+
+  if (call && Object.hasOwn(STRING_FUNCTIONS, call[1])) {
+    return parseStringFunction(trimmedValue, call[1] as StringFunction, ctx)
+  }
+
+  if (call && Object.hasOwn(CAST_FUNCTIONS, call[1])) {
+    const name = call[1]
+    const args = parseFunctionArgs(
+      extractFunctionContent(trimmedValue, name),
+      ctx
+    )
+
+    if (args.length !== 1) {
+      report(ctx, 'error', `${name}() expects 1 argument, got ${args.length}`)
+      return { type: 'literal', value: null }
+    }
+
+    return { type: 'cast', to: CAST_FUNCTIONS[name], value: args[0] }
   }
 
   if (/^-?\d+(\.\d+)?$/.test(trimmedValue)) {
@@ -247,31 +1319,208 @@ function parseExpression(value: string): Expression {
     try {
       return { type: 'json', value: JSON.parse(trimmedValue) }
     } catch {
-      return { type: 'literal', value: parseStringValue(trimmedValue) }
+      return parseJsonTemplate(trimmedValue, ctx)
     }
   }
 
   return { type: 'literal', value: parseStringValue(trimmedValue) }
 }
 
-function parseSqlExpression(value: string): Expression {
-  const match = value.match(/^sql\s*\(\s*["'](.+?)["']\s*(?:,\s*(.+))?\s*\)$/s)
+/**
+ * Parses object and array literals that are not plain JSON because their
+ * values are expressions, e.g. `{ "user": var(--user) }`.
+ */
+function parseJsonTemplate(value: string, ctx: ParseContext): Expression {
+  if (findClosingBracket(value, 1) !== value.length - 1) {
+    report(ctx, 'error', `Malformed JSON template "${value}"`)
+    return { type: 'literal', value: parseStringValue(value) }
+  }
+
+  const items = splitFunctionArgs(value.slice(1, -1))
+  if (value.startsWith('[')) {
+    return {
+      type: 'array',
+      items: items.map((item) => parseTemplateValue(item, ctx)),
+    }
+  }
+
+  // No prototype, so a "__proto__" key is stored like any other key.
+  const properties: Record<string, Expression> = Object.create(null)
+  for (const item of items) {
+    const entry = item.match(/^("(?:[^"\\]|\\.)*"|'[^']*')\s*:([\s\S]+)$/)
+    if (!entry) {
+      report(ctx, 'error', `Malformed JSON template entry "${item}"`)
+      continue
+    }
+
+    const key = parseTemplateKey(entry[1])
+    if (key === null) {
+      report(ctx, 'error', `Malformed JSON template key ${entry[1]}`)
+      continue
+    }
+    properties[key] = parseTemplateValue(entry[2], ctx)
+  }
+
+  return { type: 'object', properties }
+}
+
+/**
+ * Values are decoded as JSON whenever they are JSON, so adding an expression
+ * to a literal does not change how its other values read. Anything else has
+ * to be a function call, a nested template or a single-quoted string.
+ */
+function parseTemplateValue(text: string, ctx: ParseContext): Expression {
+  const trimmed = text.trim()
+
+  try {
+    const value = JSON.parse(trimmed) as JsonValue
+    return value !== null && typeof value === 'object'
+      ? { type: 'json', value }
+      : { type: 'literal', value }
+  } catch {
+    // Not JSON, so it has to be an expression.
+  }
+
+  if (/^([a-zA-Z][\w-]*\(|[[{])/.test(trimmed) || /^'[^']*'$/.test(trimmed)) {
+    return parseExpression(trimmed, ctx)
+  }
+
+  report(ctx, 'error', `Malformed JSON template value "${trimmed}"`)
+  return { type: 'literal', value: null }
+}
+
+// Double-quoted keys are decoded like JSON, so escapes match plain JSON.
+function parseTemplateKey(quoted: string): string | null {
+  if (quoted.startsWith("'")) return quoted.slice(1, -1)
+
+  try {
+    return JSON.parse(quoted) as string
+  } catch {
+    return null
+  }
+}
+
+function parseSqlExpression(
+  value: string,
+  ctx: ParseContext,
+  mode?: SqlMode
+): Expression {
+  const name = mode ? `sql-${mode}` : 'sql'
+  const match = value.match(
+    /^sql(?:-\w+)?\s*\(\s*(?:([A-Za-z_][\w-]*)\s*,\s*)?["'](.+?)["']\s*(?:,\s*(.+))?\s*\)$/s
+  )
   if (!match) {
-    return { type: 'sql', query: '', args: [] }
+    report(
+      ctx,
+      'error',
+      `Malformed ${name}() call: expected a quoted query followed by arguments`
+    )
+    return { type: 'sql', query: '', args: [], ...(mode ? { mode } : {}) }
   }
 
-  const query = match[1]
-  const argsStr = match[2] || ''
+  const [, connection, query] = match
+  const rawArgs = splitFunctionArgs(match[3] || '')
+  const named = rawArgs.map((arg) => arg.match(/^([A-Za-z_]\w*)\s*:\s*(.+)$/s))
+  const expr: Extract<Expression, { type: 'sql' }> = {
+    type: 'sql',
+    query,
+    args: [],
+    ...(connection ? { connection } : {}),
+  }
+
+  if (named.some(Boolean)) {
+    if (!named.every(Boolean)) {
+      report(
+        ctx,
+        'error',
+        `${name}() cannot mix positional and named arguments`
+      )
+    }
+
+    expr.namedArgs = {}
+    for (const arg of named) {
+      if (arg) expr.namedArgs[arg[1]] = parseExpression(arg[2], ctx)
+    }
+    checkNamedArgs(name, query, Object.keys(expr.namedArgs), ctx)
+  } else {
+    expr.args = rawArgs.map((arg) => parseExpression(arg, ctx))
+
+    if (expr.args.length && findNamedParameters(query).length) {
+      report(
+        ctx,
+        'error',
+        `${name}() query uses named parameters; pass them as name: value`
+      )
+    }
+  }
+
+  if (mode) {
+    return { ...expr, mode }
+  }
 
-  const args = parseFunctionArgs(argsStr)
+  // Plain sql() returns one row for a SELECT with exactly one argument or
+  // `LIMIT 1`, and every row otherwise, which is easy to get wrong.
+  const argCount = expr.namedArgs
+    ? Object.keys(expr.namedArgs).length
+    : expr.args.length
+  if (/^\s*SELECT\b/i.test(query) && argCount > 0) {
+    const shape =
+      query.includes('LIMIT 1') || argCount === 1 ? 'one row' : 'all rows'
+    report(
+      ctx,
+      'warning',
+      `sql() guesses that this query returns ${shape}; use sql-one() or sql-all() instead`
+    )
+  }
 
-  return { type: 'sql', query, args }
+  return expr
 }
 
-function parseFunctionArgs(argsStr: string): Expression[] {
+function checkNamedArgs(
+  name: string,
+  query: string,
+  argNames: string[],
+  ctx: ParseContext
+): void {
+  const parameters = findNamedParameters(query)
+  const missing = parameters.filter((param) => !argNames.includes(param))
+  const extra = argNames.filter((arg) => !parameters.includes(arg))
+
+  if (missing.length) {
+    report(
+      ctx,
+      'error',
+      `${name}() is missing named arguments: ${missing.join(', ')}`
+    )
+  }
+
+  if (extra.length) {
+    report(
+      ctx,
+      'error',
+      `${name}() query does not use named arguments: ${extra.join(', ')}`
+    )
+  }
+}
+
+/** Names of `:name`, `@name` and `$name` placeholders outside SQL strings. */
+function findNamedParameters(query: string): string[] {
+  const unquoted = query.replace(/'(?:[^']|'')*'/g, "''")
+  const names = [...unquoted.matchAll(/[:@$]([A-Za-z_]\w*)/g)].map(
+    (match) => match[1]
+  )
+
+  return [...new Set(names)]
+}
+
+function parseFunctionArgs(argsStr: string, ctx: ParseContext): Expression[] {
+  return splitFunctionArgs(argsStr).map((arg) => parseExpression(arg, ctx))
+}
+
+function splitFunctionArgs(argsStr: string): string[] {
   if (!argsStr.trim()) return []
 
-  const args: Expression[] = []
+  const args: string[] = []
   let current = ''
   let depth = 0
   let inString = false
@@ -280,17 +1529,23 @@ function parseFunctionArgs(argsStr: string): Expression[] {
   for (let i = 0; i < argsStr.length; i++) {
     const char = argsStr[i]
 
+    if (inString && char === '\\') {
+      current += char + (argsStr[i + 1] ?? '')
+      i++
+      continue
+    }
+
     if ((char === '"' || char === "'") && !inString) {
       inString = true
       stringChar = char
     } else if (char === stringChar && inString) {
       inString = false
     } else if (!inString) {
-      if (char === '(') depth++
-      else if (char === ')') depth--
+      if ('([{'.includes(char)) depth++
+      else if (')]}'.includes(char)) depth--
       else if (char === ',' && depth === 0) {
         if (current.trim()) {
-          args.push(parseExpression(current.trim()))
+          args.push(current.trim())
         }
         current = ''
         continue
@@ -301,13 +1556,167 @@ function parseFunctionArgs(argsStr: string): Expression[] {
   }
 
   if (current.trim()) {
-    args.push(parseExpression(current.trim()))
+    args.push(current.trim())
   }
 
   return args
 }
 
-function parseIfExpression(value: string): Expression {
+/**
+ * Parses the body of calc() with `* / %` binding tighter than `+ -`.
+ * Operands are numbers, parenthesised groups and function calls such as
+ * var() or param().
+ */
+function parseCalc(source: string, ctx: ParseContext): Expression {
+  const tokens = tokenizeCalc(source)
+  let position = 0
+
+  function parseSum(): Expression | null {
+    let left = parseProduct()
+    while (left && (tokens[position] === '+' || tokens[position] === '-')) {
+      const operator = tokens[position++] as ArithmeticOperator
+      const right = parseProduct()
+      left = right && { type: 'arithmetic', operator, left, right }
+    }
+    return left
+  }
+
+  function parseProduct(): Expression | null {
+    let left = parseOperand()
+    while (left && ['*', '/', '%'].includes(tokens[position])) {
+      const operator = tokens[position++] as ArithmeticOperator
+      const right = parseOperand()
+      left = right && { type: 'arithmetic', operator, left, right }
+    }
+    return left
+  }
+
+  function parseOperand(): Expression | null {
+    const token = tokens[position++]
+    if (token === undefined || ['*', '/', '%'].includes(token)) return null
+
+    if (token === '+') return parseOperand()
+    if (token === '-') {
+      const operand = parseOperand()
+      if (operand?.type === 'literal' && typeof operand.value === 'number') {
+        return { type: 'literal', value: -operand.value }
+      }
+      return (
+        operand && {
+          type: 'arithmetic',
+          operator: '-',
+          left: { type: 'literal', value: 0 },
+          right: operand,
+        }
+      )
+    }
+
+    if (token.startsWith('(')) return parseCalc(token.slice(1, -1), ctx)
+    if (/^[\d.]/.test(token)) return { type: 'literal', value: Number(token) }
+    return parseExpression(token, ctx)
+  }
+
+  const expr = parseSum()
+  if (!expr || position < tokens.length) {
+    report(ctx, 'error', `Malformed calc() expression "${source.trim()}"`)
+    return { type: 'literal', value: null }
+  }
+
+  return expr
+}
+
+/**
+ * Splits a calc() body into operators and operands, keeping groups, strings
+ * and function calls whole. Returns no tokens when it cannot be split.
+ */
+function tokenizeCalc(source: string): string[] {
+  const tokens: string[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    const rest = source.slice(i)
+    let end = i
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    const number = rest.match(/^(\d+(\.\d+)?|\.\d+)/)
+    const call = rest.match(/^[a-zA-Z][\w-]*\(/)
+
+    if ('+-*/%'.includes(char)) {
+      end = i
+    } else if (char === '(') {
+      end = findClosingBracket(source, i + 1)
+    } else if (char === '"' || char === "'") {
+      end = source.indexOf(char, i + 1)
+    } else if (number) {
+      end = i + number[0].length - 1
+    } else if (call) {
+      end = findClosingBracket(source, i + call[0].length)
+    } else {
+      return []
+    }
+
+    if (end === -1) return []
+    tokens.push(source.slice(i, end + 1))
+    i = end + 1
+  }
+
+  return tokens
+}
+
+function parseMathFunction(
+  value: string,
+  fn: MathFunction,
+  ctx: ParseContext
+): Expression {
+  const args = splitFunctionArgs(extractFunctionContent(value, fn)).map((arg) =>
+    parseCalc(arg, ctx)
+  )
+
+  const variadic = fn === 'min' || fn === 'max'
+  const valid = variadic
+    ? args.length > 0
+    : args.length === 1 || (fn === 'round' && args.length === 2)
+
+  if (!valid) {
+    const expected = variadic
+      ? 'at least one value'
+      : fn === 'round'
+        ? 'a value and an optional step'
+        : 'one value'
+    report(ctx, 'error', `${fn}() expects ${expected}`)
+    return { type: 'literal', value: null }
+  }
+
+  return { type: 'math', fn, args }
+}
+
+function parseStringFunction(
+  value: string,
+  fn: StringFunction,
+  ctx: ParseContext
+): Expression {
+  const args = parseFunctionArgs(extractFunctionContent(value, fn), ctx)
+  const [min, max] = STRING_FUNCTIONS[fn]
+
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`
+    report(
+      ctx,
+      'error',
+      `${fn}() expects ${expected} argument${max === 1 ? '' : 's'}, got ${args.length}`
+    )
+    return { type: 'literal', value: null }
+  }
+
+  return { type: 'string', fn, args }
+}
+
+function parseIfExpression(value: string, ctx: ParseContext): Expression {
   const inner = extractFunctionContent(value, 'if')
   const branches: IfBranch[] = []
   let elseValue: Expression | undefined
@@ -317,19 +1726,29 @@ function parseIfExpression(value: string): Expression {
   for (const part of parts) {
     if (part.trim().startsWith('else:')) {
       const elseContent = part.trim().slice(5).trim()
-      elseValue = parseExpression(elseContent)
+      elseValue = parseExpression(elseContent, ctx)
     } else {
       const colonIndex = findColonInBranch(part)
       if (colonIndex !== -1) {
         const conditionStr = part.slice(0, colonIndex).trim()
         const valueStr = part.slice(colonIndex + 1).trim()
 
-        const condition = parseCondition(conditionStr)
-        branches.push({ condition, value: parseExpression(valueStr) })
+        const condition = parseCondition(conditionStr, ctx)
+        branches.push({ condition, value: parseExpression(valueStr, ctx) })
+      } else if (part.trim()) {
+        report(
+          ctx,
+          'error',
+          `Malformed if() branch "${part.trim()}": expected "condition: value"`
+        )
       }
     }
   }
 
+  if (branches.length === 0) {
+    report(ctx, 'error', 'if() requires at least one "condition: value" branch')
+  }
+
   return { type: 'if', branches, elseValue }
 }
 
@@ -343,6 +1762,12 @@ function splitIfBranches(str: string): string[] {
   for (let i = 0; i < str.length; i++) {
     const char = str[i]
 
+    if (inString && char === '\\') {
+      current += char + (str[i + 1] ?? '')
+      i++
+      continue
+    }
+
     if ((char === '"' || char === "'") && !inString) {
       inString = true
       stringChar = char
@@ -376,6 +1801,11 @@ function findColonInBranch(str: string): number {
   for (let i = 0; i < str.length; i++) {
     const char = str[i]
 
+    if (inString && char === '\\') {
+      i++
+      continue
+    }
+
     if ((char === '"' || char === "'") && !inString) {
       inString = true
       stringChar = char
@@ -393,7 +1823,7 @@ function findColonInBranch(str: string): number {
   return -1
 }
 
-function parseCondition(str: string): Condition {
+function parseCondition(str: string, ctx: ParseContext): Condition {
   const trimmedStr = str.trim()
 
   const orIndex = trimmedStr.indexOf(' or ')
@@ -404,7 +1834,7 @@ function parseCondition(str: string): Condition {
     const right = trimmedStr.slice(orIndex + 4).trim()
     return {
       type: 'or',
-      conditions: [parseCondition(left), parseCondition(right)],
+      conditions: [parseCondition(left, ctx), parseCondition(right, ctx)],
     }
   }
 
@@ -413,17 +1843,22 @@ function parseCondition(str: string): Condition {
     const right = trimmedStr.slice(andIndex + 5).trim()
     return {
       type: 'and',
-      conditions: [parseCondition(left), parseCondition(right)],
+      conditions: [parseCondition(left, ctx), parseCondition(right, ctx)],
     }
   }
 
   if (trimmedStr.startsWith('not ')) {
-    return { type: 'not', condition: parseCondition(trimmedStr.slice(4)) }
+    return {
+      type: 'not',
+      condition: parseCondition(trimmedStr.slice(4), ctx),
+    }
   }
 
-  const compMatch = trimmedStr.match(/^(--[\w-]+)\s*(=|!=|>=|<=|>|<)\s*(.+)$/)
+  const compMatch = trimmedStr.match(
+    /^--([\w-]+(?:[.[]\S*?)?)\s*(=|!=|>=|<=|>|<)\s*(.+)$/
+  )
   if (compMatch) {
-    const varName = compMatch[1].replace(/^--/, '')
+    const target = parseConditionTarget(compMatch[1], ctx)
     const op = compMatch[2]
     const valueStr = compMatch[3].trim()
     const value = isNaN(Number(valueStr))
@@ -432,45 +1867,143 @@ function parseCondition(str: string): Condition {
 
     switch (op) {
       case '=':
-        return { type: 'equals', varName, value: value as string | number }
+        return { type: 'equals', ...target, value: value as string | number }
       case '!=':
-        return { type: 'notEquals', varName, value: value as string | number }
+        return { type: 'notEquals', ...target, value: value as string | number }
       case '>':
-        return { type: 'greaterThan', varName, value: value as number }
+        return { type: 'greaterThan', ...target, value: value as number }
       case '<':
-        return { type: 'lessThan', varName, value: value as number }
+        return { type: 'lessThan', ...target, value: value as number }
       case '>=':
-        return { type: 'greaterOrEqual', varName, value: value as number }
+        return { type: 'greaterOrEqual', ...target, value: value as number }
       case '<=':
-        return { type: 'lessOrEqual', varName, value: value as number }
+        return { type: 'lessOrEqual', ...target, value: value as number }
     }
   }
 
-  const varMatch = trimmedStr.match(/^--([\w-]+)$/)
+  const varMatch = trimmedStr.match(/^--([\w-]+(?:[.[].*)?)$/)
   if (varMatch) {
-    return { type: 'truthy', varName: varMatch[1] }
+    return { type: 'truthy', ...parseConditionTarget(varMatch[1], ctx) }
   }
 
+  report(ctx, 'error', `Malformed condition "${trimmedStr}"`)
   return { type: 'truthy', varName: trimmedStr.replace(/^--/, '') }
 }
 
+function parseConditionTarget(
+  ref: string,
+  ctx: ParseContext
+): { varName: string; path?: PathSegment[] } {
+  const { name, path } = parsePath(ref, ctx)
+  return path ? { varName: name, path } : { varName: name }
+}
+
+/**
+ * Splits `rows[0].id` into the name before the first `.` or `[` and the
+ * property names and indexes after it. Names without a path are returned
+ * whole, as before paths existed.
+ */
+function parsePath(
+  ref: string,
+  ctx: ParseContext
+): { name: string; path?: PathSegment[] } {
+  const start = ref.search(/[.[]/)
+  if (start === -1) return { name: ref }
+
+  const segment = /\.([\w-]+)|\[(\d+)\]|\[(["'])(.*?)\3\]/y
+  const path: PathSegment[] = []
+  segment.lastIndex = start
+
+  while (start > 0 && segment.lastIndex < ref.length) {
+    const match = segment.exec(ref)
+    if (!match) break
+    path.push(match[1] ?? (match[2] ? Number(match[2]) : match[4]))
+  }
+
+  if (!path.length || segment.lastIndex < ref.length) {
+    report(ctx, 'error', `Malformed path "${ref}"`)
+    return { name: ref.slice(0, start) || ref }
+  }
+
+  return { name: ref.slice(0, start), path }
+}
+
 function extractFunctionContent(value: string, funcName: string): string {
   const start = value.indexOf(funcName + '(') + funcName.length + 1
+  const end = findClosingBracket(value, start)
+
+  return value.slice(start, end === -1 ? start : end)
+}
+
+function checkFunctionCall(
+  value: string,
+  funcName: string,
+  ctx: ParseContext
+): boolean {
+  const end = findClosingBracket(value, funcName.length + 1)
+
+  if (end === -1) {
+    report(ctx, 'error', `Unclosed parenthesis in ${funcName}()`)
+    return false
+  }
+
+  if (end !== value.length - 1) {
+    const rest = value.slice(end + 1).trim()
+    report(ctx, 'error', `Unexpected "${rest}" after ${funcName}()`)
+    return false
+  }
+
+  return true
+}
+
+/** Finds the bracket closing the one before `start`, skipping strings. */
+function findClosingBracket(value: string, start: number): number {
   let depth = 1
-  let end = start
+  let inString = false
+  let stringChar = ''
 
   for (let i = start; i < value.length; i++) {
-    if (value[i] === '(') depth++
-    else if (value[i] === ')') {
-      depth--
-      if (depth === 0) {
-        end = i
-        break
+    const char = value[i]
+
+    if (inString && char === '\\') {
+      i++
+      continue
+    }
+
+    if ((char === '"' || char === "'") && !inString) {
+      inString = true
+      stringChar = char
+    } else if (char === stringChar && inString) {
+      inString = false
+    } else if (!inString) {
+      if ('([{'.includes(char)) depth++
+      else if (')]}'.includes(char)) {
+        depth--
+        if (depth === 0) return i
       }
     }
   }
 
-  return value.slice(start, end)
+  return -1
+}
+
+export function getLocation(node: Node): SourceLocation {
+  const start = node.source?.start
+  const file = node.source?.input.file
+
+  return {
+    line: start?.line ?? 1,
+    column: start?.column ?? 1,
+    ...(file ? { file } : {}),
+  }
+}
+
+function report(
+  ctx: ParseContext,
+  severity: DiagnosticSeverity,
+  message: string
+): void {
+  ctx.diagnostics.push({ severity, message, ...ctx.location })
 }
 
 function parseStringValue(value: string): string {
@@ -0,0 +1,89 @@
+export interface RateLimiterOptions {
+  limit: number
+  windowMs: number
+  /** Clock used for refills, replaceable in tests. */
+  now?: () => number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the bucket is full again. */
+  reset: number
+  /** Seconds until the next request is allowed, when it was rejected. */
+  retryAfter?: number
+}
+
+export interface RateLimiter {
+  hit(key: string): RateLimitResult
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Token bucket per key: each key holds up to `limit` tokens and regains them
+ * evenly over `windowMs`, so bursts are allowed but the average rate is
+ * capped. Full buckets are dropped once per window to bound memory.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const { limit, windowMs } = options
+  const now = options.now ?? Date.now
+  const refillPerMs = limit / windowMs
+  const buckets = new Map<string, Bucket>()
+  let lastSweep = now()
+
+  function refill(bucket: Bucket, time: number): void {
+    bucket.tokens = Math.min(
+      limit,
+      bucket.tokens + (time - bucket.updatedAt) * refillPerMs
+    )
+    bucket.updatedAt = time
+  }
+
+  function sweep(time: number): void {
+    if (time - lastSweep < windowMs) return
+    lastSweep = time
+
+    for (const [key, bucket] of buckets) {
+      refill(bucket, time)
+      if (bucket.tokens >= limit) buckets.delete(key)
+    }
+  }
+
+  function hit(key: string): RateLimitResult {
+    const time = now()
+    sweep(time)
+
+    let bucket = buckets.get(key)
+    if (bucket) {
+      refill(bucket, time)
+    } else {
+      bucket = { tokens: limit, updatedAt: time }
+      buckets.set(key, bucket)
+    }
+
+    const allowed = bucket.tokens >= 1
+    if (allowed) bucket.tokens -= 1
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(bucket.tokens),
+      reset: Math.ceil((limit - bucket.tokens) / refillPerMs / 1000),
+      ...(allowed
+        ? {}
+        : {
+            retryAfter: Math.max(
+              1,
+              Math.ceil((1 - bucket.tokens) / refillPerMs / 1000)
+            ),
+          }),
+    }
+  }
+
+  return { hit }
+}
@@ -1,71 +1,150 @@
-import express, { Express, Request, Response } from 'express'
-import { CompiledRoute, compileRoutes } from './compiler.js'
-import { closeDatabase, executeSchema, initDatabase } from './evaluator.js'
+import express, { Express, Request, Response, Router } from 'express'
+import { Server } from 'http'
+import {
+  CompiledMiddleware,
+  CompiledRoute,
+  compileMiddleware,
+  compileRateLimits,
+  compileRoutes,
+  toExpressPath,
+} from './compiler.js'
+import {
+  createCorsHandler,
+  createPreflightHandler,
+  skipPreflight,
+} from './cors.js'
+import { openDatabase } from './database.js'
 import { ParsedCSS, ServerConfig } from './types.js'
 
-export function createApp(parsed: ParsedCSS): Express {
+export interface CSSApp extends Express {
+  /**
+   * Swaps in the routes of a newly parsed file. The HTTP listener and the
+   * database connection are kept; requests already in flight finish on the
+   * previous routes.
+   */
+  reload(parsed: ParsedCSS): void
+  /**
+   * Closes the database connections of this app. Other apps in the process
+   * are not affected; the HTTP listener is closed by its owner.
+   */
+  close(): void
+}
+
+export interface AppOptions {
+  /** Runs the `@seed` blocks even when the database already existed. */
+  seed?: boolean
+}
+
+export function createApp(parsed: ParsedCSS, options: AppOptions = {}): CSSApp {
   const app = express()
 
   app.use(express.json())
   app.use(express.urlencoded({ extended: true }))
 
-  if (parsed.config.database) {
-    initDatabase(parsed.config.database)
-    if (parsed.schema) {
-      executeSchema(parsed.schema)
-    }
-  }
+  // Each app owns its connections, so several apps can run side by side.
+  const database = parsed.config.database
+    ? openDatabase(parsed, { seed: options.seed }).database
+    : null
+  app.locals.database = database ?? undefined
 
-  const compiledRoutes = compileRoutes(parsed.routes)
+  let router = createRouter(parsed)
 
-  for (const route of compiledRoutes) {
-    registerRoute(app, route)
-  }
+  app.use((req, res, next) => router(req, res, next))
 
   app.use((req: Request, res: Response) => {
     res.status(404).json({ error: 'Not found' })
   })
 
-  return app
+  function reload(next: ParsedCSS): void {
+    router = createRouter(next)
+  }
+
+  function close(): void {
+    database?.close()
+    app.locals.database = undefined
+  }
+
+  return Object.assign(app, { reload, close })
 }
 
-function registerRoute(app: Express, route: CompiledRoute): void {
+function createRouter(parsed: ParsedCSS): Router {
+  const router = Router()
+  const corsPaths = parsed.cors.map((cors) => toExpressPath(cors.path ?? '*'))
+
+  parsed.cors.forEach((cors, index) => {
+    router.all(corsPaths[index], createCorsHandler(cors))
+  })
+
+  const middleware = [
+    ...compileRateLimits(parsed.rateLimits),
+    ...compileMiddleware(parsed.middleware),
+  ]
+
+  for (const rule of middleware) {
+    registerRoute(
+      router,
+      parsed.cors.length
+        ? { ...rule, handler: skipPreflight(rule.handler) }
+        : rule
+    )
+  }
+
+  for (const route of compileRoutes(parsed.routes)) {
+    registerRoute(router, route)
+  }
+
+  for (const corsPath of new Set(corsPaths)) {
+    router.options(corsPath, createPreflightHandler())
+  }
+
+  return router
+}
+
+function registerRoute(
+  router: Router,
+  route: CompiledRoute | CompiledMiddleware
+): void {
   switch (route.method) {
     case 'GET':
-      app.get(route.path, route.handler)
+      router.get(route.path, route.handler)
       break
     case 'POST':
-      app.post(route.path, route.handler)
+      router.post(route.path, route.handler)
       break
     case 'PUT':
-      app.put(route.path, route.handler)
+      router.put(route.path, route.handler)
       break
     case 'PATCH':
-      app.patch(route.path, route.handler)
+      router.patch(route.path, route.handler)
       break
     case 'DELETE':
-      app.delete(route.path, route.handler)
+      router.delete(route.path, route.handler)
       break
     case 'HEAD':
-      app.head(route.path, route.handler)
+      router.head(route.path, route.handler)
       break
     case 'OPTIONS':
-      app.options(route.path, route.handler)
+      router.options(route.path, route.handler)
       break
+    default:
+      router.all(route.path, route.handler)
   }
 }
 
-export function startServer(app: Express, config: ServerConfig): void {
-  const host = config.host || 'localhost'
-
-  app.listen(config.port, () => {
+/**
+ * Listens on every interface, like Express, unless `@server` or `--host`
+ * names one.
+ */
+export function startServer(app: Express, config: ServerConfig): Server {
+  function onListening(): void {
+    const host = config.host || 'localhost'
     console.log(`CSS Server running at http://${host}:${config.port}`)
     if (config.database) {
       console.log(`Database: ${config.database}`)
     }
-  })
-}
+  }
 
-export function stopServer(): void {
-  closeDatabase()
+  return config.host
+    ? app.listen(config.port, config.host, onListening)
+    : app.listen(config.port, onListening)
 }
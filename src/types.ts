@@ -1,3 +1,5 @@
+import { DatabaseConnections } from './database.js'
+
 export type HttpMethod =
   | 'GET'
   | 'POST'
@@ -17,37 +19,197 @@ export type JsonArray = Array<JsonPrimitive | JsonObject | JsonArray>
 
 export type JsonValue = JsonPrimitive | JsonObject | JsonArray
 
+/** Name of the connection declared by an unnamed `database: <path>`. */
+export const DEFAULT_CONNECTION = 'main'
+
 export interface ServerConfig {
   port: number
+  /** Path of the default connection, which is the first one declared. */
   database?: string
+  /** Paths by connection name, set once `database: <name> <path>` is used. */
+  databases?: Record<string, string>
+  /** Name of a driver registered with `registerDriver()`, `sqlite` by default. */
+  driver?: string
   host?: string
 }
 
+export interface CorsConfig {
+  path?: string
+  origins: string[]
+  methods: HttpMethod[]
+  headers: string[]
+  exposeHeaders: string[]
+  credentials: boolean
+  maxAge?: number
+  source?: SourceLocation
+}
+
 export interface RouteRule {
   path: string
   method: HttpMethod
+  rateLimit?: RateLimit
+  auth?: AuthRule
+  validations: FieldValidation[]
   variables: VariableAssignment[]
+  headers: ResponseHeader[]
   status?: StatusValue
+  cache?: CacheRule
+  invalidate?: string[]
+  transaction?: TransactionRule
   return: ReturnValue
+  source?: SourceLocation
+}
+
+export interface MiddlewareRule {
+  path?: string
+  method?: HttpMethod
+  rateLimit?: RateLimit
+  auth?: AuthRule
+  validations: FieldValidation[]
+  variables: VariableAssignment[]
+  headers: ResponseHeader[]
+  status?: StatusValue
+  return?: ReturnValue
+  source?: SourceLocation
+}
+
+/** Response sent when a transactional route fails and is rolled back. */
+export interface TransactionRule {
+  status?: StatusValue
+  return?: ReturnValue
+  source?: SourceLocation
+}
+
+export interface CacheRule {
+  ttlMs: number
+  /** Request headers that are part of the cache key, lowercased. */
+  vary: string[]
+  source?: SourceLocation
+}
+
+export interface RateLimit {
+  limit: number
+  windowMs: number
+  key?: Expression
+  source?: SourceLocation
+}
+
+export interface RateLimitConfig extends RateLimit {
+  path?: string
+  method?: HttpMethod
+}
+
+export interface AuthRule {
+  scheme: 'jwt'
+  token: Expression
+  secret: Expression
+  variable: string
+  source?: SourceLocation
+}
+
+export type ValidationSource = 'body' | 'query' | 'param' | 'header'
+
+export type ValidationType = 'string' | 'integer' | 'number' | 'boolean'
+
+export interface FieldValidation {
+  name: string
+  from: ValidationSource
+  type: ValidationType
+  required: boolean
+  minLength?: number
+  maxLength?: number
+  min?: number
+  max?: number
+  pattern?: string
+  oneOf?: string[]
+  source?: SourceLocation
+}
+
+export interface FieldError {
+  field: string
+  from: ValidationSource
+  message: string
+}
+
+export interface ResponseHeader {
+  name: string
+  value: Expression
+  source?: SourceLocation
 }
 
 export interface VariableAssignment {
   name: string
   value: Expression
+  source?: SourceLocation
 }
 
 export type Expression =
   | { type: 'literal'; value: string | number | boolean | null }
-  | { type: 'var'; name: string }
+  | { type: 'var'; name: string; path?: PathSegment[] }
   | { type: 'param'; paramName: string }
   | { type: 'query'; paramName: string }
-  | { type: 'body'; fieldName: string }
+  | { type: 'body'; fieldName: string; path?: PathSegment[] }
   | { type: 'header'; headerName: string }
-  | { type: 'sql'; query: string; args: Expression[] }
+  | {
+      type: 'sql'
+      query: string
+      args: Expression[]
+      /** Set instead of `args` when the query uses `:name` placeholders. */
+      namedArgs?: Record<string, Expression>
+      mode?: SqlMode
+      /** Named connection to run on instead of the default one. */
+      connection?: string
+    }
   | { type: 'if'; branches: IfBranch[]; elseValue?: Expression }
   | { type: 'json'; value: JsonValue }
+  /** JSON object and array literals whose values are expressions. */
+  | { type: 'object'; properties: Record<string, Expression> }
+  | { type: 'array'; items: Expression[] }
   | { type: 'html'; value: string }
   | { type: 'concat'; parts: Expression[] }
+  | { type: 'env'; name: string; fallback?: Expression }
+  | { type: 'jwt'; token: Expression; secret: Expression }
+  | {
+      type: 'arithmetic'
+      operator: ArithmeticOperator
+      left: Expression
+      right: Expression
+    }
+  | { type: 'math'; fn: MathFunction; args: Expression[] }
+  | { type: 'string'; fn: StringFunction; args: Expression[] }
+  | { type: 'cast'; to: CastType; value: Expression }
+
+/**
+ * Property names and array indexes after a variable or body field, as in
+ * `var(--rows[0].id)`.
+ */
+export type PathSegment = string | number
+
+/** Binary operators of calc(). */
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%'
+
+export type MathFunction = 'min' | 'max' | 'round' | 'floor' | 'ceil' | 'abs'
+
+/** Target of number(), int(), bool(), string() and json-parse(). */
+export type CastType = 'number' | 'int' | 'bool' | 'string' | 'json'
+
+export type StringFunction =
+  | 'upper'
+  | 'lower'
+  | 'trim'
+  | 'replace'
+  | 'substring'
+  | 'length'
+  | 'split'
+  | 'join'
+  | 'pad-start'
+  | 'slugify'
+
+/**
+ * Result shape of sql-one(), sql-all(), sql-value() and sql-run(). Plain
+ * sql() has no mode and guesses the shape from the query.
+ */
+export type SqlMode = 'one' | 'all' | 'value' | 'run'
 
 export interface IfBranch {
   condition: Condition
@@ -55,13 +217,43 @@ export interface IfBranch {
 }
 
 export type Condition =
-  | { type: 'truthy'; varName: string }
-  | { type: 'equals'; varName: string; value: string | number }
-  | { type: 'notEquals'; varName: string; value: string | number }
-  | { type: 'greaterThan'; varName: string; value: number }
-  | { type: 'lessThan'; varName: string; value: number }
-  | { type: 'greaterOrEqual'; varName: string; value: number }
-  | { type: 'lessOrEqual'; varName: string; value: number }
+  | { type: 'truthy'; varName: string; path?: PathSegment[] }
+  | {
+      type: 'equals'
+      varName: string
+      path?: PathSegment[]
+      value: string | number
+    }
+  | {
+      type: 'notEquals'
+      varName: string
+      path?: PathSegment[]
+      value: string | number
+    }
+  | {
+      type: 'greaterThan'
+      varName: string
+      path?: PathSegment[]
+      value: number
+    }
+  | {
+      type: 'lessThan'
+      varName: string
+      path?: PathSegment[]
+      value: number
+    }
+  | {
+      type: 'greaterOrEqual'
+      varName: string
+      path?: PathSegment[]
+      value: number
+    }
+  | {
+      type: 'lessOrEqual'
+      varName: string
+      path?: PathSegment[]
+      value: number
+    }
   | { type: 'and'; conditions: Condition[] }
   | { type: 'or'; conditions: Condition[] }
   | { type: 'not'; condition: Condition }
@@ -74,12 +266,47 @@ export type StatusValue =
 export interface ReturnValue {
   type: 'json' | 'html'
   value: Expression
+  source?: SourceLocation
+}
+
+export interface SourceLocation {
+  file?: string
+  line: number
+  column: number
+}
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface Diagnostic extends SourceLocation {
+  severity: DiagnosticSeverity
+  message: string
 }
 
 export interface ParsedCSS {
   config: ServerConfig
   routes: RouteRule[]
+  middleware: MiddlewareRule[]
+  cors: CorsConfig[]
+  rateLimits: RateLimitConfig[]
   schema?: string
+  /** `@database <name>` schemas of the other named connections. */
+  schemas?: Record<string, string>
+  migrations: Migration[]
+  /** SQL of all `@seed` blocks, run only on request or into a new database. */
+  seed?: string
+  diagnostics: Diagnostic[]
+}
+
+export interface ConnectionSchema {
+  connection: string
+  sql: string
+  source?: SourceLocation
+}
+
+export interface Migration {
+  name: string
+  sql: string
+  source?: SourceLocation
 }
 
 export interface RequestContext {
@@ -88,4 +315,6 @@ export interface RequestContext {
   body: Record<string, unknown>
   headers: Record<string, string>
   variables: Record<string, unknown>
+  /** Connections of the app handling the request, if it has a database. */
+  database?: DatabaseConnections
 }
@@ -0,0 +1,152 @@
+import {
+  FieldError,
+  FieldValidation,
+  RequestContext,
+  ValidationType,
+} from './types.js'
+
+const TYPE_MESSAGES: Record<ValidationType, string> = {
+  string: 'must be a string',
+  integer: 'must be an integer',
+  number: 'must be a number',
+  boolean: 'must be a boolean',
+}
+
+export interface ValidationResult {
+  values: Record<string, unknown>
+  errors: FieldError[]
+}
+
+/**
+ * Checks each @validate field against the request. Valid fields are returned
+ * coerced to their declared type; missing optional fields become null.
+ */
+export function validateRequest(
+  validations: FieldValidation[],
+  ctx: RequestContext
+): ValidationResult {
+  const values: Record<string, unknown> = {}
+  const errors: FieldError[] = []
+
+  for (const validation of validations) {
+    const raw = readField(validation, ctx)
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (validation.required) {
+        errors.push(fieldError(validation, 'is required'))
+      } else {
+        values[validation.name] = null
+      }
+      continue
+    }
+
+    const value = coerceValue(validation, raw)
+
+    if (value === undefined) {
+      errors.push(fieldError(validation, TYPE_MESSAGES[validation.type]))
+      continue
+    }
+
+    const message = checkConstraints(validation, value)
+
+    if (message) {
+      errors.push(fieldError(validation, message))
+    } else {
+      values[validation.name] = value
+    }
+  }
+
+  return { values, errors }
+}
+
+function readField(validation: FieldValidation, ctx: RequestContext): unknown {
+  switch (validation.from) {
+    case 'body':
+      return ctx.body[validation.name]
+
+    case 'query':
+      return ctx.query[validation.name]
+
+    case 'param':
+      return ctx.params[validation.name]
+
+    case 'header':
+      return ctx.headers[validation.name.toLowerCase()]
+  }
+}
+
+// Query strings, params and headers only carry strings, so numeric and
+// boolean fields accept their string forms as well.
+function coerceValue(validation: FieldValidation, raw: unknown): unknown {
+  switch (validation.type) {
+    case 'string':
+      return typeof raw === 'string' ? raw : undefined
+
+    case 'integer':
+    case 'number': {
+      const value =
+        typeof raw === 'number'
+          ? raw
+          : typeof raw === 'string' && raw.trim()
+            ? Number(raw)
+            : NaN
+      if (!Number.isFinite(value)) return undefined
+      if (validation.type === 'integer' && !Number.isInteger(value)) {
+        return undefined
+      }
+      return value
+    }
+
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw
+      if (raw === 'true' || raw === '1') return true
+      if (raw === 'false' || raw === '0') return false
+      return undefined
+  }
+}
+
+function checkConstraints(
+  validation: FieldValidation,
+  value: unknown
+): string | null {
+  if (typeof value === 'string') {
+    if (
+      validation.minLength !== undefined &&
+      value.length < validation.minLength
+    ) {
+      return `must be at least ${validation.minLength} characters`
+    }
+    if (
+      validation.maxLength !== undefined &&
+      value.length > validation.maxLength
+    ) {
+      return `must be at most ${validation.maxLength} characters`
+    }
+    if (validation.pattern && !new RegExp(validation.pattern).test(value)) {
+      return `must match ${validation.pattern}`
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (validation.min !== undefined && value < validation.min) {
+      return `must be at least ${validation.min}`
+    }
+    if (validation.max !== undefined && value > validation.max) {
+      return `must be at most ${validation.max}`
+    }
+  }
+
+  if (validation.oneOf && !validation.oneOf.includes(String(value))) {
+    return `must be one of ${validation.oneOf.join(', ')}`
+  }
+
+  return null
+}
+
+function fieldError(validation: FieldValidation, message: string): FieldError {
+  return {
+    field: validation.name,
+    from: validation.from,
+    message: `${validation.name} ${message}`,
+  }
+}
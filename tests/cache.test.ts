@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { createResponseCache } from '../src/cache.js'
+
+describe('Response cache', () => {
+  function response(path: string, body = '[]') {
+    return { path, status: 200, headers: {}, body }
+  }
+
+  it('should return entries until they expire', () => {
+    let time = 0
+    const cache = createResponseCache({ now: () => time })
+
+    const stored = cache.set('GET /users', response('/users'), 1000)
+    expect(stored.etag).toMatch(/^".+"$/)
+    expect(cache.get('GET /users')).toEqual(stored)
+
+    time = 999
+    expect(cache.get('GET /users')).not.toBeNull()
+
+    time = 1000
+    expect(cache.get('GET /users')).toBeNull()
+  })
+
+  it('should derive the ETag from the body', () => {
+    const cache = createResponseCache()
+    const a = cache.set('a', response('/a', '[1]'), 1000)
+    const b = cache.set('b', response('/b', '[1]'), 1000)
+    const c = cache.set('c', response('/c', '[2]'), 1000)
+
+    expect(a.etag).toBe(b.etag)
+    expect(a.etag).not.toBe(c.etag)
+  })
+
+  it('should invalidate entries by path glob', () => {
+    const cache = createResponseCache()
+    cache.set('1', response('/users'), 1000)
+    cache.set('2', response('/users/1'), 1000)
+    cache.set('3', response('/posts'), 1000)
+
+    expect(cache.invalidate(['/users*'])).toBe(2)
+    expect(cache.get('1')).toBeNull()
+    expect(cache.get('2')).toBeNull()
+    expect(cache.get('3')).not.toBeNull()
+  })
+
+  it('should evict the oldest entries when full', () => {
+    const cache = createResponseCache({ maxEntries: 2 })
+    cache.set('1', response('/1'), 1000)
+    cache.set('2', response('/2'), 1000)
+    cache.set('3', response('/3'), 1000)
+
+    expect(cache.get('1')).toBeNull()
+    expect(cache.get('2')).not.toBeNull()
+    expect(cache.get('3')).not.toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatMigrationStatus,
+  formatRoutesTable,
+  resolveServerConfig,
+} from '../src/cli.js'
+import { parseCSS } from '../src/parser.js'
+
+describe('CLI', () => {
+  describe('resolveServerConfig', () => {
+    it('should keep @server values without overrides', () => {
+      const config = resolveServerConfig(
+        { port: 3000, host: 'localhost', database: './app.db' },
+        {}
+      )
+      expect(config).toEqual({
+        port: 3000,
+        host: 'localhost',
+        database: './app.db',
+      })
+    })
+
+    it('should let port and host options take precedence', () => {
+      const config = resolveServerConfig(
+        { port: 3000, host: 'localhost' },
+        { port: 8080, host: '0.0.0.0' }
+      )
+      expect(config.port).toBe(8080)
+      expect(config.host).toBe('0.0.0.0')
+    })
+  })
+
+  describe('formatRoutesTable', () => {
+    it('should list method, path, variables and return type', () => {
+      const { routes } = parseCSS(`
+        [path="/"]:GET {
+          @return html("<h1>Home</h1>");
+        }
+
+        [path="/users/:id"]:GET {
+          --id: param(:id);
+          --user: sql("SELECT * FROM users WHERE id = ?", var(--id));
+          @return json(var(--user));
+        }
+      `)
+
+      expect(formatRoutesTable(routes).split('\n')).toEqual([
+        'METHOD  PATH        VARIABLES     RETURNS',
+        'GET     /           -             html',
+        'GET     /users/:id  --id, --user  json',
+      ])
+    })
+
+    it('should print only the header without routes', () => {
+      expect(formatRoutesTable([])).toBe('METHOD  PATH  VARIABLES  RETURNS')
+    })
+  })
+
+  describe('formatMigrationStatus', () => {
+    it('should list each migration with its state', () => {
+      expect(
+        formatMigrationStatus([
+          {
+            name: '001-create-users',
+            state: 'applied',
+            appliedAt: '2024-01-01T00:00:00.000Z',
+          },
+          { name: '002-add-email', state: 'pending' },
+        ]).split('\n')
+      ).toEqual([
+        'MIGRATION         STATUS   APPLIED AT',
+        '001-create-users  applied  2024-01-01T00:00:00.000Z',
+        '002-add-email     pending  -',
+      ])
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  DatabaseConnections,
+  OpenDatabaseOptions,
+  OpenedDatabase,
+  openDatabase,
+  removeDatabase,
+  resetDatabase,
+} from '../src/database.js'
+import { evaluateExpression } from '../src/evaluator.js'
+import { loadCSSFile } from '../src/loader.js'
+import { parseCSS } from '../src/parser.js'
+import { ParsedCSS } from '../src/types.js'
+
+describe('Database setup', () => {
+  let dir: string
+  let dbPath: string
+  let opened: DatabaseConnections[]
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'css-database-'))
+    dbPath = path.join(dir, 'app.db')
+    opened = []
+  })
+
+  afterEach(() => {
+    closeAll()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function parse(database = dbPath): ParsedCSS {
+    return parseCSS(`
+      @server { database: "${database}"; }
+      @database {
+        CREATE TABLE IF NOT EXISTS users (id INTEGER PRIMARY KEY, name TEXT);
+      }
+      @seed {
+        INSERT INTO users (name) VALUES ('Ada');
+      }
+    `)
+  }
+
+  function open(
+    parsed: ParsedCSS,
+    options?: OpenDatabaseOptions
+  ): OpenedDatabase {
+    const result = openDatabase(parsed, options)
+    opened.push(result.database)
+    return result
+  }
+
+  function closeAll(): void {
+    for (const database of opened.splice(0)) database.close()
+  }
+
+  function countUsers(): number {
+    const { database } = open(parse())
+    const { count } = database
+      .get()!
+      .queryOne('SELECT COUNT(*) AS count FROM users')!
+    closeAll()
+    return count as number
+  }
+
+  it('should seed a database it creates', () => {
+    expect(open(parse()).seeded).toBe(true)
+    closeAll()
+    expect(countUsers()).toBe(1)
+  })
+
+  it('should not seed an existing database unless asked to', () => {
+    open(parse())
+    closeAll()
+
+    expect(open(parse()).seeded).toBe(false)
+    closeAll()
+    expect(open(parse(), { seed: true }).seeded).toBe(true)
+    closeAll()
+    expect(countUsers()).toBe(2)
+  })
+
+  it('should always seed an in-memory database', () => {
+    const { database, seeded } = open(parse(':memory:'))
+    expect(seeded).toBe(true)
+    expect(database.get()!.queryAll('SELECT name FROM users')).toEqual([
+      { name: 'Ada' },
+    ])
+  })
+
+  it('should roll back a failing seed', () => {
+    const parsed = parse()
+    expect(() =>
+      openDatabase({
+        ...parsed,
+        seed: `${parsed.seed}\nINSERT INTO missing VALUES (1);`,
+      })
+    ).toThrow('no such table: missing')
+    expect(open(parsed).seeded).toBe(false)
+    closeAll()
+    expect(countUsers()).toBe(0)
+  })
+
+  it('should recreate and re-seed the database on reset', () => {
+    open(parse(), { seed: true })
+    closeAll()
+
+    const reset = resetDatabase(parse())
+    reset.database.close()
+    expect(reset.seeded).toBe(true)
+    expect(countUsers()).toBe(1)
+  })
+
+  it('should refuse to reset an in-memory database', () => {
+    expect(() => resetDatabase(parse(':memory:'))).toThrow(
+      'An in-memory database cannot be reset'
+    )
+  })
+
+  it('should open named connections and attach them to each other', () => {
+    const auditPath = path.join(dir, 'audit.db')
+    const { database } = open(
+      parseCSS(`
+        @server {
+          database: app "${dbPath}";
+          database: audit "${auditPath}";
+        }
+        @database { CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT); }
+        @database audit { CREATE TABLE events (user_id INTEGER, action TEXT); }
+        @seed {
+          INSERT INTO users (name) VALUES ('Ada');
+          INSERT INTO audit.events VALUES (1, 'login');
+        }
+      `)
+    )
+
+    expect(
+      database
+        .get()!
+        .queryAll(
+          'SELECT u.name, e.action FROM users u JOIN audit.events e ON e.user_id = u.id'
+        )
+    ).toEqual([{ name: 'Ada', action: 'login' }])
+
+    expect(
+      evaluateExpression(
+        {
+          type: 'sql',
+          query: 'SELECT name FROM app.users',
+          args: [],
+          mode: 'value',
+          connection: 'audit',
+        },
+        {
+          params: {},
+          query: {},
+          body: {},
+          headers: {},
+          variables: {},
+          database,
+        }
+      )
+    ).toBe('Ada')
+  })
+
+  it('should keep the connections of separate opens apart', () => {
+    const first = open(parse(':memory:')).database
+    const second = open(parse(':memory:')).database
+
+    first.get()!.run("INSERT INTO users (name) VALUES ('Grace')")
+    first.close()
+
+    expect(second.get()!.queryAll('SELECT name FROM users')).toEqual([
+      { name: 'Ada' },
+    ])
+  })
+
+  it.each(['crud.css', 'api.css'])(
+    'should open the %s example against the same file twice',
+    (example) => {
+      process.env.DATABASE = dbPath
+      try {
+        const parsed = loadCSSFile(path.join('examples', example))
+        open(parsed)
+        closeAll()
+        expect(open(parsed).seeded).toBe(false)
+      } finally {
+        delete process.env.DATABASE
+      }
+    }
+  )
+
+  it('should remove the database file and its journal files', () => {
+    fs.writeFileSync(dbPath, '')
+    fs.writeFileSync(`${dbPath}-wal`, '')
+
+    removeDatabase(dbPath)
+    expect(fs.readdirSync(dir)).toEqual([])
+  })
+})
@@ -0,0 +1,161 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { openDatabase } from '../src/database.js'
+import {
+  DatabaseAdapter,
+  SqlParams,
+  createAdapter,
+  createMemoryAdapter,
+  createSqliteAdapter,
+  registerDriver,
+} from '../src/drivers.js'
+import { evaluateExpression } from '../src/evaluator.js'
+import { parseCSS } from '../src/parser.js'
+import { RequestContext } from '../src/types.js'
+
+describe('Database drivers', () => {
+  const ctx: RequestContext = {
+    params: {},
+    query: {},
+    body: {},
+    headers: {},
+    variables: {},
+  }
+
+  describe('SQLite adapter', () => {
+    it('should query, run and bind named parameters', () => {
+      const db = createSqliteAdapter(':memory:')
+      db.exec('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)')
+
+      expect(db.run('INSERT INTO users (name) VALUES (?)', ['Ada'])).toEqual({
+        id: 1,
+        changes: 1,
+      })
+      db.run('INSERT INTO users (name) VALUES (:name)', { name: 'Grace' })
+
+      expect(db.queryOne('SELECT * FROM users WHERE id = ?', [2])).toEqual({
+        id: 2,
+        name: 'Grace',
+      })
+      expect(db.queryOne('SELECT * FROM users WHERE id = ?', [3])).toBeNull()
+      expect(db.queryAll('SELECT name FROM users')).toEqual([
+        { name: 'Ada' },
+        { name: 'Grace' },
+      ])
+      db.close()
+    })
+
+    it('should roll back a transaction that throws', () => {
+      const db = createSqliteAdapter(':memory:')
+      db.exec('CREATE TABLE items (name TEXT)')
+
+      expect(() =>
+        db.transaction(() => {
+          db.run("INSERT INTO items VALUES ('a')")
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+      expect(db.queryAll('SELECT * FROM items')).toEqual([])
+      db.close()
+    })
+  })
+
+  describe('Memory adapter', () => {
+    it('should ignore the location and never create files', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'css-drivers-'))
+      const location = path.join(dir, 'app.db')
+
+      const db = createAdapter('memory', location)
+      db.exec('CREATE TABLE items (name TEXT)')
+      db.close()
+
+      expect(fs.readdirSync(dir)).toEqual([])
+      expect(createMemoryAdapter().attach).toBeUndefined()
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+  })
+
+  describe('Driver registry', () => {
+    // Records every query, and fails catalog queries as a database other
+    // than SQLite would.
+    function registerRecordingDriver(calls: string[]): void {
+      registerDriver('recording', (location) => {
+        const db = createMemoryAdapter()
+        calls.push(`open ${location}`)
+
+        function record(sql: string): void {
+          calls.push(sql)
+          if (sql.includes('sqlite_master')) {
+            throw new Error('no such table: sqlite_master')
+          }
+        }
+
+        return {
+          ...db,
+          queryOne(sql: string, params?: SqlParams) {
+            record(sql)
+            return db.queryOne(sql, params)
+          },
+          queryAll(sql: string, params?: SqlParams) {
+            record(sql)
+            return db.queryAll(sql, params)
+          },
+        } satisfies DatabaseAdapter
+      })
+    }
+
+    it('should open connections with the driver named in @server', () => {
+      const calls: string[] = []
+
+      registerRecordingDriver(calls)
+
+      const { database, seeded } = openDatabase(
+        parseCSS(`
+          @server { driver: recording; database: "postgres://db/app"; }
+          @database { CREATE TABLE users (name TEXT); }
+          @seed { INSERT INTO users VALUES ('Ada'); }
+        `)
+      )
+
+      expect(seeded).toBe(false)
+      expect(
+        evaluateExpression(
+          { type: 'sql', query: 'SELECT * FROM users', args: [] },
+          { ...ctx, database }
+        )
+      ).toEqual([])
+      expect(calls).toEqual(['open postgres://db/app', 'SELECT * FROM users'])
+      database.close()
+    })
+
+    it('should apply migrations without querying the SQLite catalog', () => {
+      const calls: string[] = []
+      registerRecordingDriver(calls)
+
+      const { database } = openDatabase(
+        parseCSS(`
+          @server { driver: recording; database: "postgres://db/app"; }
+          @migration "001-users" { CREATE TABLE users (name TEXT); }
+        `)
+      )
+      database.close()
+
+      expect(calls).toContain(
+        'SELECT name, checksum, applied_at FROM _migrations'
+      )
+      expect(calls.filter((sql) => sql.includes('sqlite_master'))).toEqual([])
+    })
+
+    it('should reject unknown drivers', () => {
+      expect(() =>
+        openDatabase(
+          parseCSS(`@server { driver: mysql; database: "mysql://db/app"; }`)
+        )
+      ).toThrow(
+        'Unknown database driver "mysql"; register it with registerDriver()'
+      )
+    })
+  })
+})
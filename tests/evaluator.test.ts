@@ -1,18 +1,32 @@
-import Database from 'better-sqlite3'
-import fs from 'fs'
-import path from 'path'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createConnections } from '../src/database.js'
+import { createMemoryAdapter } from '../src/drivers.js'
+import { evaluateExpression } from '../src/evaluator.js'
 import {
-  closeDatabase,
-  evaluateExpression,
-  initDatabase,
-} from '../src/evaluator.js'
-import { Expression, RequestContext } from '../src/types.js'
+  ArithmeticOperator,
+  CastType,
+  Condition,
+  DEFAULT_CONNECTION,
+  Expression,
+  MathFunction,
+  PathSegment,
+  RequestContext,
+  SqlMode,
+  StringFunction,
+} from '../src/types.js'
 
 describe('Evaluator', () => {
   let ctx: RequestContext
-  let testDbPath: string
-  let testDb: Database.Database | null = null
+
+  function openMemoryDatabase(...names: string[]) {
+    ctx.database = createConnections(
+      (names.length ? names : [DEFAULT_CONNECTION]).map((name) => [
+        name,
+        createMemoryAdapter(),
+      ])
+    )
+    return ctx.database.get()!
+  }
 
   beforeEach(() => {
     ctx = {
@@ -22,24 +36,10 @@ describe('Evaluator', () => {
       headers: {},
       variables: {},
     }
-
-    testDbPath = path.join(
-      process.cwd(),
-      `test-${Date.now()}-${Math.random().toString(36).slice(2)}.db`
-    )
   })
 
   afterEach(() => {
-    closeDatabase()
-    if (testDb) {
-      testDb.close()
-      testDb = null
-    }
-    if (fs.existsSync(testDbPath)) {
-      try {
-        fs.unlinkSync(testDbPath)
-      } catch (_error) {}
-    }
+    ctx.database?.close()
   })
 
   describe('Literal expressions', () => {
@@ -138,25 +138,88 @@ describe('Evaluator', () => {
     })
   })
 
+  describe('Paths', () => {
+    it('should read nested properties and array items', () => {
+      ctx.variables = {
+        user: { email: 'john@example.com' },
+        rows: [{ id: 7 }, { id: 8 }],
+      }
+      expect(
+        evaluateExpression({ type: 'var', name: 'user', path: ['email'] }, ctx)
+      ).toBe('john@example.com')
+      expect(
+        evaluateExpression({ type: 'var', name: 'rows', path: [1, 'id'] }, ctx)
+      ).toBe(8)
+      expect(
+        evaluateExpression({ type: 'var', name: 'rows', path: ['length'] }, ctx)
+      ).toBe(2)
+    })
+
+    it('should read paths into the request body', () => {
+      ctx.body = { items: [{ qty: 1 }, { qty: 2 }, { qty: 3 }] }
+      const expr: Expression = {
+        type: 'body',
+        fieldName: 'items',
+        path: [2, 'qty'],
+      }
+      expect(evaluateExpression(expr, ctx)).toBe(3)
+    })
+
+    it('should return null for missing segments', () => {
+      ctx.variables = { user: { email: null }, rows: [], name: 'john' }
+      const paths: [string, PathSegment[]][] = [
+        ['user', ['address', 'city']],
+        ['user', ['email', 'domain']],
+        ['rows', [0, 'id']],
+        ['name', ['length']],
+        ['missing', ['id']],
+        ['user', ['constructor']],
+      ]
+      for (const [name, path] of paths) {
+        expect(evaluateExpression({ type: 'var', name, path }, ctx)).toBeNull()
+      }
+    })
+
+    it('should follow paths in conditions', () => {
+      ctx.variables = { user: { role: 'admin', tags: [] } }
+      const expr: Expression = {
+        type: 'if',
+        branches: [
+          {
+            condition: { type: 'truthy', varName: 'user', path: ['tags', 0] },
+            value: { type: 'literal', value: 'tagged' },
+          },
+          {
+            condition: {
+              type: 'equals',
+              varName: 'user',
+              path: ['role'],
+              value: 'admin',
+            },
+            value: { type: 'literal', value: 'admin' },
+          },
+        ],
+      }
+      expect(evaluateExpression(expr, ctx)).toBe('admin')
+    })
+  })
+
   describe('SQL expressions', () => {
     beforeEach(() => {
-      testDb = new Database(testDbPath)
-      testDb.exec(`
+      const db = openMemoryDatabase()
+      db.exec(`
         CREATE TABLE users (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           name TEXT,
           email TEXT
         )
       `)
-      testDb.exec(
+      db.exec(
         `INSERT INTO users (name, email) VALUES ('John', 'john@example.com')`
       )
-      testDb.exec(
+      db.exec(
         `INSERT INTO users (name, email) VALUES ('Jane', 'jane@example.com')`
       )
-      testDb.close()
-      testDb = null
-      initDatabase(testDbPath)
     })
 
     it('should execute SELECT all', () => {
@@ -223,6 +286,219 @@ describe('Evaluator', () => {
     })
   })
 
+  describe('SQL result shapes', () => {
+    beforeEach(() => {
+      openMemoryDatabase()
+      evaluateExpression(
+        {
+          type: 'sql',
+          query: `CREATE TABLE posts (id INTEGER PRIMARY KEY, author_id INTEGER)`,
+          args: [],
+        },
+        ctx
+      )
+      evaluateExpression(
+        {
+          type: 'sql',
+          query: 'INSERT INTO posts (author_id) VALUES (1), (1), (2)',
+          args: [],
+        },
+        ctx
+      )
+    })
+
+    function sql(mode: SqlMode, query: string, ...args: number[]): unknown {
+      return evaluateExpression(
+        {
+          type: 'sql',
+          query,
+          args: args.map((value) => ({ type: 'literal', value })),
+          mode,
+        },
+        ctx
+      )
+    }
+
+    it('should return the first row or null with sql-one()', () => {
+      const query = 'SELECT * FROM posts WHERE author_id = ?'
+      expect(sql('one', query, 1)).toEqual({ id: 1, author_id: 1 })
+      expect(sql('one', query, 3)).toBeNull()
+    })
+
+    it('should return every row with sql-all()', () => {
+      const query = 'SELECT * FROM posts WHERE author_id = ?'
+      expect(sql('all', query, 1)).toHaveLength(2)
+      expect(
+        sql('all', 'SELECT * FROM posts WHERE id = ? OR id = ?', 1, 3)
+      ).toHaveLength(2)
+    })
+
+    it('should return the first column with sql-value()', () => {
+      expect(sql('value', 'SELECT COUNT(*) FROM posts')).toBe(3)
+      expect(sql('value', 'SELECT id FROM posts WHERE id = ?', 9)).toBeNull()
+    })
+
+    it('should bind named arguments', () => {
+      const result = evaluateExpression(
+        {
+          type: 'sql',
+          query: 'SELECT * FROM posts WHERE author_id = :author AND id > @min',
+          args: [],
+          namedArgs: {
+            author: { type: 'literal', value: 1 },
+            min: { type: 'var', name: 'min' },
+          },
+          mode: 'all',
+        },
+        { ...ctx, variables: { min: 1 } }
+      )
+      expect(result).toEqual([{ id: 2, author_id: 1 }])
+    })
+
+    it('should return changes and id with sql-run()', () => {
+      expect(sql('run', 'INSERT INTO posts (author_id) VALUES (?)', 3)).toEqual(
+        { id: 4, changes: 1 }
+      )
+      expect(sql('run', 'DELETE FROM posts WHERE author_id = ?', 1)).toEqual({
+        id: 4,
+        changes: 2,
+      })
+    })
+  })
+
+  describe('Transactions', () => {
+    const insert: Expression = {
+      type: 'sql',
+      query: 'INSERT INTO items (name) VALUES (?)',
+      args: [{ type: 'literal', value: 'a' }],
+    }
+    const count: Expression = {
+      type: 'sql',
+      query: 'SELECT COUNT(*) AS count FROM items',
+      args: [],
+    }
+
+    beforeEach(() => {
+      openMemoryDatabase()
+      evaluateExpression(
+        {
+          type: 'sql',
+          query: 'CREATE TABLE items (name TEXT UNIQUE)',
+          args: [],
+        },
+        ctx
+      )
+    })
+
+    it('should commit when every statement succeeds', () => {
+      const result = ctx.database!.transaction(() =>
+        evaluateExpression(insert, ctx)
+      )
+      expect(result).toEqual({ id: 1, changes: 1 })
+      expect(evaluateExpression(count, ctx)).toEqual([{ count: 1 }])
+    })
+
+    it('should throw and roll back on the first SQL error', () => {
+      expect(() =>
+        ctx.database!.transaction(() => {
+          evaluateExpression(insert, ctx)
+          evaluateExpression(insert, ctx)
+        })
+      ).toThrow('UNIQUE constraint failed')
+      expect(evaluateExpression(count, ctx)).toEqual([{ count: 0 }])
+    })
+
+    it('should return SQL errors as values outside a transaction', () => {
+      evaluateExpression(insert, ctx)
+      expect(evaluateExpression(insert, ctx)).toEqual({
+        error: expect.stringContaining('UNIQUE constraint failed'),
+      })
+    })
+  })
+
+  describe('Named connections', () => {
+    beforeEach(() => {
+      openMemoryDatabase(DEFAULT_CONNECTION, 'audit')
+      evaluateExpression(
+        { type: 'sql', query: 'CREATE TABLE users (name TEXT)', args: [] },
+        ctx
+      )
+      evaluateExpression(
+        {
+          type: 'sql',
+          query: 'CREATE TABLE events (action TEXT)',
+          args: [],
+          connection: 'audit',
+        },
+        ctx
+      )
+    })
+
+    it('should run sql() on the named connection', () => {
+      const insert: Expression = {
+        type: 'sql',
+        query: "INSERT INTO events (action) VALUES ('login')",
+        args: [],
+        mode: 'run',
+        connection: 'audit',
+      }
+      expect(evaluateExpression(insert, ctx)).toEqual({ id: 1, changes: 1 })
+      expect(
+        evaluateExpression(
+          {
+            type: 'sql',
+            query: 'SELECT * FROM events',
+            args: [],
+            mode: 'all',
+          },
+          ctx
+        )
+      ).toEqual({ error: 'no such table: events' })
+    })
+
+    it('should roll back every connection in a transaction', () => {
+      expect(() =>
+        ctx.database!.transaction(() => {
+          evaluateExpression(
+            {
+              type: 'sql',
+              query: "INSERT INTO events (action) VALUES ('signup')",
+              args: [],
+              connection: 'audit',
+            },
+            ctx
+          )
+          evaluateExpression(
+            { type: 'sql', query: 'INSERT INTO missing VALUES (1)', args: [] },
+            ctx
+          )
+        })
+      ).toThrow('no such table: missing')
+
+      expect(
+        evaluateExpression(
+          {
+            type: 'sql',
+            query: 'SELECT COUNT(*) FROM events',
+            args: [],
+            mode: 'value',
+            connection: 'audit',
+          },
+          ctx
+        )
+      ).toBe(0)
+    })
+
+    it('should report unknown connections', () => {
+      expect(
+        evaluateExpression(
+          { type: 'sql', query: 'SELECT 1', args: [], connection: 'stats' },
+          ctx
+        )
+      ).toEqual({ error: 'Database stats not configured' })
+    })
+  })
+
   describe('SQL without database', () => {
     it('should return error when database not configured', () => {
       const expr: Expression = {
@@ -330,6 +606,48 @@ describe('Evaluator', () => {
       expect(evaluateExpression(expr, ctx)).toBe('child')
     })
 
+    it('should compare numeric strings as numbers', () => {
+      ctx.variables = { age: '18', id: '1', name: 'abc' }
+      function check(condition: Condition) {
+        return evaluateExpression(
+          {
+            type: 'if',
+            branches: [{ condition, value: { type: 'literal', value: true } }],
+            elseValue: { type: 'literal', value: false },
+          },
+          ctx
+        )
+      }
+
+      expect(check({ type: 'greaterOrEqual', varName: 'age', value: 18 })).toBe(
+        true
+      )
+      expect(check({ type: 'lessThan', varName: 'age', value: 13 })).toBe(false)
+      expect(check({ type: 'equals', varName: 'id', value: 1 })).toBe(true)
+      expect(check({ type: 'notEquals', varName: 'id', value: 1 })).toBe(false)
+      expect(check({ type: 'greaterThan', varName: 'name', value: 0 })).toBe(
+        false
+      )
+      expect(check({ type: 'equals', varName: 'missing', value: 0 })).toBe(
+        false
+      )
+    })
+
+    it('should compare booleans with their string values', () => {
+      ctx.variables = { active: true }
+      const expr: Expression = {
+        type: 'if',
+        branches: [
+          {
+            condition: { type: 'equals', varName: 'active', value: 'true' },
+            value: { type: 'literal', value: 'yes' },
+          },
+        ],
+        elseValue: { type: 'literal', value: 'no' },
+      }
+      expect(evaluateExpression(expr, ctx)).toBe('yes')
+    })
+
     it('should evaluate AND condition', () => {
       ctx.variables = { a: true, b: true }
       const expr: Expression = {
@@ -453,6 +771,35 @@ describe('Evaluator', () => {
       expect(evaluateExpression(expr, ctx)).toBe('<h1>Hello</h1>')
     })
 
+    it('should evaluate object and array templates recursively', () => {
+      ctx.variables = { rows: [{ id: 1 }], total: 1 }
+      const expr: Expression = {
+        type: 'object',
+        properties: {
+          data: { type: 'var', name: 'rows' },
+          meta: {
+            type: 'object',
+            properties: {
+              total: { type: 'var', name: 'total' },
+              next: { type: 'var', name: 'missing' },
+            },
+          },
+          ids: {
+            type: 'array',
+            items: [
+              { type: 'var', name: 'rows', path: [0, 'id'] },
+              { type: 'literal', value: 'x' },
+            ],
+          },
+        },
+      }
+      expect(evaluateExpression(expr, ctx)).toEqual({
+        data: [{ id: 1 }],
+        meta: { total: 1, next: null },
+        ids: [1, 'x'],
+      })
+    })
+
     it('should concatenate strings', () => {
       const expr: Expression = {
         type: 'concat',
@@ -466,6 +813,211 @@ describe('Evaluator', () => {
     })
   })
 
+  describe('Arithmetic', () => {
+    function arithmetic(
+      operator: ArithmeticOperator,
+      left: Expression,
+      right: Expression
+    ): Expression {
+      return { type: 'arithmetic', operator, left, right }
+    }
+
+    function literal(value: string | number | null): Expression {
+      return { type: 'literal', value }
+    }
+
+    it('should apply each operator', () => {
+      const results = (['+', '-', '*', '/', '%'] as const).map((operator) =>
+        evaluateExpression(arithmetic(operator, literal(7), literal(2)), ctx)
+      )
+      expect(results).toEqual([9, 5, 14, 3.5, 1])
+    })
+
+    it('should compute a pagination offset from a query string', () => {
+      ctx.query = { page: '3' }
+      const expr = arithmetic(
+        '*',
+        arithmetic('-', { type: 'query', paramName: 'page' }, literal(1)),
+        literal(20)
+      )
+      expect(evaluateExpression(expr, ctx)).toBe(40)
+    })
+
+    it('should return null for non-numeric operands', () => {
+      ctx.variables = { name: 'abc', empty: '' }
+      expect(
+        evaluateExpression(
+          arithmetic('+', { type: 'var', name: 'name' }, literal(1)),
+          ctx
+        )
+      ).toBeNull()
+      expect(
+        evaluateExpression(
+          arithmetic('+', { type: 'var', name: 'empty' }, literal(1)),
+          ctx
+        )
+      ).toBeNull()
+      expect(
+        evaluateExpression(
+          arithmetic('+', { type: 'query', paramName: 'missing' }, literal(1)),
+          ctx
+        )
+      ).toBeNull()
+    })
+
+    it('should return null instead of dividing by zero', () => {
+      expect(
+        evaluateExpression(arithmetic('/', literal(1), literal(0)), ctx)
+      ).toBeNull()
+      expect(
+        evaluateExpression(arithmetic('%', literal(1), literal(0)), ctx)
+      ).toBeNull()
+    })
+
+    it('should evaluate math functions', () => {
+      function math(fn: MathFunction, ...args: (string | number)[]) {
+        return evaluateExpression(
+          { type: 'math', fn, args: args.map(literal) },
+          ctx
+        )
+      }
+
+      expect(math('min', 3, '1', 2)).toBe(1)
+      expect(math('max', 3, '1', 2)).toBe(3)
+      expect(math('round', 2.5)).toBe(3)
+      expect(math('round', 12.345, 0.01)).toBe(12.35)
+      expect(math('round', 17, 5)).toBe(15)
+      expect(math('floor', -1.5)).toBe(-2)
+      expect(math('ceil', '1.2')).toBe(2)
+      expect(math('abs', -4)).toBe(4)
+      expect(math('max', 1, 'x')).toBeNull()
+    })
+  })
+
+  describe('String functions', () => {
+    function string(fn: StringFunction, ...args: unknown[]) {
+      return evaluateExpression(
+        {
+          type: 'string',
+          fn,
+          args: args.map((value) =>
+            Array.isArray(value)
+              ? { type: 'json', value }
+              : { type: 'literal', value: value as string | number | null }
+          ),
+        },
+        ctx
+      )
+    }
+
+    it('should change case and trim', () => {
+      expect(string('upper', 'Hello')).toBe('HELLO')
+      expect(string('lower', 'Hello')).toBe('hello')
+      expect(string('trim', '  hi  ')).toBe('hi')
+    })
+
+    it('should replace every occurrence of a plain pattern', () => {
+      expect(string('replace', 'a.b.c', '.', '/')).toBe('a/b/c')
+    })
+
+    it('should leave the text alone when replace() gets an empty pattern', () => {
+      expect(string('replace', 'abc', '', '-')).toBe('abc')
+      expect(string('replace', 'abc', null, '-')).toBe('abc')
+    })
+
+    it('should take substrings, counting negative positions from the end', () => {
+      expect(string('substring', 'abcdef', 1, 3)).toBe('bc')
+      expect(string('substring', 'abcdef', '2')).toBe('cdef')
+      expect(string('substring', 'abcdef', -2)).toBe('ef')
+    })
+
+    it('should measure strings and arrays', () => {
+      expect(string('length', 'abc')).toBe(3)
+      expect(string('length', ['a', 'b'])).toBe(2)
+    })
+
+    it('should split and join', () => {
+      expect(string('split', 'a,b,c', ',')).toEqual(['a', 'b', 'c'])
+      expect(string('join', ['a', 'b', 'c'])).toBe('a,b,c')
+      expect(string('join', ['a', 'b', 'c'], ' / ')).toBe('a / b / c')
+    })
+
+    it('should pad the start of a string', () => {
+      expect(string('pad-start', 42, 5, '0')).toBe('00042')
+      expect(string('pad-start', 'ab', 4)).toBe('  ab')
+    })
+
+    it('should return null for pad-start() lengths that are out of range', () => {
+      expect(string('pad-start', 'ab', '1000000000', '0')).toBeNull()
+      expect(string('pad-start', 'ab', 1001)).toBeNull()
+      expect(string('pad-start', 'ab', -1)).toBeNull()
+      expect(string('pad-start', 'ab', 2.5)).toBeNull()
+      expect(string('pad-start', 'ab', 'abc')).toBeNull()
+      expect(string('pad-start', 'ab', 1000)).toHaveLength(1000)
+    })
+
+    it('should slugify text', () => {
+      expect(string('slugify', '  Héllo, Wörld! 2024 ')).toBe(
+        'hello-world-2024'
+      )
+    })
+
+    it('should return null for a missing value', () => {
+      expect(string('upper', null)).toBeNull()
+      expect(
+        evaluateExpression(
+          {
+            type: 'string',
+            fn: 'length',
+            args: [{ type: 'query', paramName: 'missing' }],
+          },
+          ctx
+        )
+      ).toBeNull()
+    })
+  })
+
+  describe('Type casts', () => {
+    function cast(to: CastType, value: unknown) {
+      return evaluateExpression(
+        { type: 'cast', to, value: { type: 'var', name: 'value' } },
+        { ...ctx, variables: { value } }
+      )
+    }
+
+    it('should convert to numbers', () => {
+      expect(cast('number', '12.5')).toBe(12.5)
+      expect(cast('number', true)).toBe(1)
+      expect(cast('number', 'abc')).toBeNull()
+      expect(cast('int', '12.9')).toBe(12)
+      expect(cast('int', '-12.9')).toBe(-12)
+      expect(cast('int', undefined)).toBeNull()
+    })
+
+    it('should convert to booleans', () => {
+      expect(cast('bool', 'true')).toBe(true)
+      expect(cast('bool', 'yes')).toBe(true)
+      expect(cast('bool', ' False ')).toBe(false)
+      expect(cast('bool', '0')).toBe(false)
+      expect(cast('bool', 'off')).toBe(false)
+      expect(cast('bool', 0)).toBe(false)
+      expect(cast('bool', [1])).toBe(true)
+      expect(cast('bool', undefined)).toBe(false)
+    })
+
+    it('should convert to strings', () => {
+      expect(cast('string', 42)).toBe('42')
+      expect(cast('string', { a: 1 })).toBe('{"a":1}')
+      expect(cast('string', undefined)).toBeNull()
+    })
+
+    it('should parse JSON strings', () => {
+      expect(cast('json', '{"tags":["a"]}')).toEqual({ tags: ['a'] })
+      expect(cast('json', 'not json')).toBeNull()
+      expect(cast('json', { a: 1 })).toEqual({ a: 1 })
+    })
+  })
+
   describe('Truthy checks', () => {
     it('should treat null as falsy', () => {
       ctx.variables = { x: null }
@@ -1,24 +1,19 @@
-import Database from 'better-sqlite3'
 import express from 'express'
-import fs from 'fs'
 import { afterAll, beforeAll, describe, expect, it } from 'vitest'
-import { closeDatabase } from '../src/evaluator.js'
+import { signJwt } from '../src/jwt.js'
 import { parseCSS } from '../src/parser.js'
-import { createApp } from '../src/runtime.js'
-
-const TEST_DB_NAME = `test-int-${Date.now()}.db`
-const TEST_DB = `./${TEST_DB_NAME}`
+import { CSSApp, createApp } from '../src/runtime.js'
 
 describe('Integration Tests', () => {
-  let app: express.Express
+  let app: CSSApp
   let server: ReturnType<express.Application['listen']>
-  let db: Database.Database | null = null
 
   beforeAll(async () => {
     const css = `
       @server {
         port: 3333;
-        database: ./${TEST_DB_NAME};
+        driver: memory;
+        database: app;
       }
 
       @database {
@@ -27,6 +22,9 @@ describe('Integration Tests', () => {
           name TEXT,
           email TEXT
         );
+      }
+
+      @seed {
         INSERT INTO users (name, email) VALUES ('John', 'john@example.com');
       }
 
@@ -56,6 +54,44 @@ describe('Integration Tests', () => {
         @return json(if(--q: var(--results); else: []));
       }
 
+      [path="/pages"]:GET {
+        --offset: calc((query(page) - 1) * 1);
+        @return json(sql-all("SELECT name FROM users ORDER BY id LIMIT 1 OFFSET ?", var(--offset)));
+      }
+
+      [path="/names"]:GET {
+        --q: query(q);
+        --users: sql-all("SELECT name FROM users WHERE name LIKE ? ORDER BY id", concat("%", trim(var(--q)), "%"));
+        @return json(if(--q: var(--users); else: []));
+      }
+
+      [path="/check-age"]:GET {
+        --age: query(age);
+        @return json(if(
+          --age >= 18: { "status": "adult" };
+          --age >= 13: { "status": "teen" };
+          else: { "status": "child" };
+        ));
+      }
+
+      [path="/first-user"]:GET {
+        --users: sql-all("SELECT * FROM users ORDER BY id");
+        @return json(var(--users[0].email));
+      }
+
+      [path="/listing"]:GET {
+        --page: int(query(page));
+        --users: sql-all("SELECT name FROM users ORDER BY id LIMIT 1 OFFSET ?", calc(var(--page) - 1));
+        @return json({
+          "data": var(--users),
+          "meta": { "page": var(--page), "total": sql-value("SELECT COUNT(*) FROM users") }
+        });
+      }
+
+      [path="/template-keys"]:GET {
+        @return json({ "__proto__": query(x), "c\\u0041": query(x) });
+      }
+
       [path="/ping"]:GET {
         @return json({ "ok": true });
       }
@@ -74,7 +110,6 @@ describe('Integration Tests', () => {
 
     const parsed = parseCSS(css)
     app = createApp(parsed)
-    db = new Database(TEST_DB)
 
     await new Promise<void>((resolve) => {
       server = app.listen(3333, () => resolve())
@@ -82,19 +117,12 @@ describe('Integration Tests', () => {
   })
 
   afterAll(async () => {
-    closeDatabase()
-    if (db) {
-      db.close()
-      db = null
-    }
+    app.close()
     if (server) {
       await new Promise<void>((resolve) => {
         server.close(() => resolve())
       })
     }
-    if (fs.existsSync(TEST_DB)) {
-      fs.unlinkSync(TEST_DB)
-    }
   })
 
   async function fetchGet(path: string, headers: Record<string, string> = {}) {
@@ -192,8 +220,866 @@ describe('Integration Tests', () => {
     expect(res.status).toBe(200)
   })
 
+  it('should compute the page offset with calc()', async () => {
+    const res = await fetchGet('/pages?page=2')
+    expect(res.body).toEqual([{ name: 'Jane' }])
+  })
+
+  it('should build a LIKE pattern from the query string', async () => {
+    const res = await fetchGet('/names?q=%20an%20')
+    expect(res.body).toEqual([{ name: 'Jane' }])
+  })
+
+  it('should compare query strings as numbers', async () => {
+    expect((await fetchGet('/check-age?age=21')).body.status).toBe('adult')
+    expect((await fetchGet('/check-age?age=9')).body.status).toBe('child')
+  })
+
+  it('should read a property of the first row', async () => {
+    const res = await fetchGet('/first-user')
+    expect(res.body).toBe('john@example.com')
+  })
+
+  it('should shape responses with JSON templates', async () => {
+    const res = await fetchGet('/listing?page=1')
+    expect(res.body).toEqual({
+      data: [{ name: 'John' }],
+      meta: { page: 1, total: 2 },
+    })
+  })
+
+  it('should keep escaped and __proto__ keys in JSON templates', async () => {
+    const res = await fetch('http://localhost:3333/template-keys?x=1')
+    expect(await res.text()).toBe('{"__proto__":"1","cA":"1"}')
+  })
+
   it('should return JSON content type for json route', async () => {
     const res = await fetch(`http://localhost:3333/ping`)
     expect(res.headers.get('content-type')).toContain('application/json')
   })
 })
+
+describe('Route reloading', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        [path="/version"]:GET {
+          @return json({ "version": 1 });
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3334, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  it('should serve new routes on the same listener after reload', async () => {
+    const before = await fetch('http://localhost:3334/version')
+    expect(await before.json()).toEqual({ version: 1 })
+
+    app.reload(
+      parseCSS(`
+        [path="/version"]:GET {
+          @return json({ "version": 2 });
+        }
+
+        [path="/added"]:GET {
+          @return json({ "added": true });
+        }
+      `)
+    )
+
+    const after = await fetch('http://localhost:3334/version')
+    expect(await after.json()).toEqual({ version: 2 })
+
+    const added = await fetch('http://localhost:3334/added')
+    expect(added.status).toBe(200)
+  })
+
+  it('should drop removed routes after reload', async () => {
+    app.reload(parseCSS(''))
+
+    const res = await fetch('http://localhost:3334/version')
+    expect(res.status).toBe(404)
+  })
+})
+
+describe('Middleware', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        @before {
+          --requestId: header(x-request-id);
+        }
+
+        @before [path="/admin/*"] {
+          --key: header(x-api-key);
+          status: 401;
+          @return json(if(not --key: { "error": "Missing API key" }));
+        }
+
+        @before [path="/admin/*"]:POST {
+          --role: header(x-user-role);
+          status: 403;
+          @return json(if(--role != admin: { "error": "Admins only" }));
+        }
+
+        [path="/admin/stats"]:GET {
+          @return json(if(--key: { "key": "present" }; else: null));
+        }
+
+        [path="/admin/stats"]:POST {
+          @return json({ "saved": true });
+        }
+
+        [path="/admin"]:GET {
+          @return json({ "admin": true });
+        }
+
+        [path="/echo"]:GET {
+          --requestId: if(--requestId: var(--requestId); else: "none");
+          @return json(var(--requestId));
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3335, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  async function request(
+    path: string,
+    init: RequestInit = {}
+  ): Promise<{ status: number; body: unknown }> {
+    const res = await fetch(`http://localhost:3335${path}`, init)
+    return { status: res.status, body: await res.json() }
+  }
+
+  it('should short-circuit when the @before return value is set', async () => {
+    const res = await request('/admin/stats')
+    expect(res.status).toBe(401)
+    expect(res.body).toEqual({ error: 'Missing API key' })
+  })
+
+  it('should match the wildcard parent path', async () => {
+    const res = await request('/admin')
+    expect(res.status).toBe(401)
+  })
+
+  it('should continue to the route and expose variables', async () => {
+    const res = await request('/admin/stats', {
+      headers: { 'x-api-key': 'secret' },
+    })
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ key: 'present' })
+  })
+
+  it('should only run method-scoped middleware for that method', async () => {
+    const denied = await request('/admin/stats', {
+      method: 'POST',
+      headers: { 'x-api-key': 'secret' },
+    })
+    expect(denied.status).toBe(403)
+
+    const allowed = await request('/admin/stats', {
+      method: 'POST',
+      headers: { 'x-api-key': 'secret', 'x-user-role': 'admin' },
+    })
+    expect(allowed.status).toBe(200)
+    expect(allowed.body).toEqual({ saved: true })
+  })
+
+  it('should let routes read and override middleware variables', async () => {
+    const withId = await request('/echo', {
+      headers: { 'x-request-id': 'abc' },
+    })
+    expect(withId.body).toBe('abc')
+
+    const withoutId = await request('/echo')
+    expect(withoutId.body).toBe('none')
+  })
+})
+
+describe('Response headers', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        @before {
+          header-x-powered-by: "css-server";
+        }
+
+        [path="/users"]:POST {
+          --id: 42;
+          status: 201;
+          header-location: concat("/users/", var(--id));
+          header-cache-control: "no-store";
+          @return json({ "created": true });
+        }
+
+        [path="/report"]:GET {
+          --format: query(format);
+          @header Content-Disposition if(--format = csv: "attachment; filename=report.csv");
+          @return html("report");
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3336, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  it('should set multiple evaluated headers', async () => {
+    const res = await fetch('http://localhost:3336/users', { method: 'POST' })
+    expect(res.status).toBe(201)
+    expect(res.headers.get('location')).toBe('/users/42')
+    expect(res.headers.get('cache-control')).toBe('no-store')
+  })
+
+  it('should set conditional headers only when the value is not null', async () => {
+    const csv = await fetch('http://localhost:3336/report?format=csv')
+    expect(csv.headers.get('content-disposition')).toBe(
+      'attachment; filename=report.csv'
+    )
+
+    const plain = await fetch('http://localhost:3336/report')
+    expect(plain.headers.get('content-disposition')).toBeNull()
+  })
+
+  it('should apply headers from @before blocks', async () => {
+    const res = await fetch('http://localhost:3336/report')
+    expect(res.headers.get('x-powered-by')).toBe('css-server')
+  })
+})
+
+describe('CORS', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        @cors {
+          origin: "https://app.example.com";
+          expose-headers: X-Total-Count;
+          max-age: 600;
+        }
+
+        @cors [path="/private/*"] {
+          origin: "https://admin.example.com";
+          methods: GET, DELETE;
+          headers: Authorization;
+          credentials: true;
+        }
+
+        @before [path="/private/*"] {
+          --auth: header(authorization);
+          status: 401;
+          @return json(if(not --auth: { "error": "Unauthorized" }));
+        }
+
+        [path="/items"]:GET {
+          @return json([]);
+        }
+
+        [path="/private/items"]:DELETE {
+          @return json({ "deleted": true });
+        }
+
+        [path="/custom"]:OPTIONS {
+          status: 200;
+          @return json({ "custom": true });
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3337, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  function preflight(path: string, origin: string, method: string) {
+    return fetch(`http://localhost:3337${path}`, {
+      method: 'OPTIONS',
+      headers: {
+        origin,
+        'access-control-request-method': method,
+        'access-control-request-headers': 'content-type',
+      },
+    })
+  }
+
+  it('should set CORS headers on normal responses', async () => {
+    const res = await fetch('http://localhost:3337/items', {
+      headers: { origin: 'https://app.example.com' },
+    })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com'
+    )
+    expect(res.headers.get('access-control-expose-headers')).toBe(
+      'X-Total-Count'
+    )
+    expect(res.headers.get('vary')).toContain('Origin')
+  })
+
+  it('should not allow other origins', async () => {
+    const res = await fetch('http://localhost:3337/items', {
+      headers: { origin: 'https://evil.example.com' },
+    })
+    expect(res.headers.get('access-control-allow-origin')).toBeNull()
+  })
+
+  it('should answer preflight requests without an OPTIONS route', async () => {
+    const res = await preflight('/items', 'https://app.example.com', 'POST')
+    expect(res.status).toBe(204)
+    expect(res.headers.get('access-control-allow-methods')).toBe(
+      'GET, HEAD, PUT, PATCH, POST, DELETE'
+    )
+    expect(res.headers.get('access-control-allow-headers')).toBe('content-type')
+    expect(res.headers.get('access-control-max-age')).toBe('600')
+  })
+
+  it('should apply scoped config and skip @before on preflight', async () => {
+    const res = await preflight(
+      '/private/items',
+      'https://admin.example.com',
+      'DELETE'
+    )
+    expect(res.status).toBe(204)
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'https://admin.example.com'
+    )
+    expect(res.headers.get('access-control-allow-credentials')).toBe('true')
+    expect(res.headers.get('access-control-allow-methods')).toBe('GET, DELETE')
+    expect(res.headers.get('access-control-allow-headers')).toBe(
+      'Authorization'
+    )
+  })
+
+  it('should keep CORS headers on responses rejected by @before', async () => {
+    const res = await fetch('http://localhost:3337/private/items', {
+      method: 'DELETE',
+      headers: { origin: 'https://admin.example.com' },
+    })
+    expect(res.status).toBe(401)
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'https://admin.example.com'
+    )
+  })
+
+  it('should let a declared OPTIONS route answer preflight requests', async () => {
+    const res = await preflight('/custom', 'https://app.example.com', 'GET')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ custom: true })
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com'
+    )
+  })
+})
+
+describe('Request validation', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        [path="/signup"]:POST {
+          @validate {
+            email: body required pattern("^[^@]+@[^@]+$");
+            age: body integer required min(13);
+            plan: body one-of(free, pro);
+          }
+          --adult: if(--age >= 18: true; else: false);
+          header-x-email: var(--email);
+          header-x-plan: var(--plan);
+          @return json(var(--adult));
+        }
+
+        [path="/items"]:GET {
+          @validate { limit: query integer max(100); }
+          @return json(var(--limit));
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3338, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  function signup(body: Record<string, unknown>) {
+    return fetch('http://localhost:3338/signup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  it('should reject invalid requests with field errors', async () => {
+    const res = await signup({ email: 'nope', plan: 'gold' })
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({
+      error: 'Validation failed',
+      fields: [
+        {
+          field: 'email',
+          from: 'body',
+          message: 'email must match ^[^@]+@[^@]+$',
+        },
+        { field: 'age', from: 'body', message: 'age is required' },
+        {
+          field: 'plan',
+          from: 'body',
+          message: 'plan must be one of free, pro',
+        },
+      ],
+    })
+  })
+
+  it('should expose validated values as variables', async () => {
+    const res = await signup({ email: 'a@b.co', age: '21' })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-email')).toBe('a@b.co')
+    expect(res.headers.get('x-plan')).toBeNull()
+    expect(await res.json()).toBe(true)
+  })
+
+  it('should coerce query parameters', async () => {
+    const ok = await fetch('http://localhost:3338/items?limit=20')
+    expect(await ok.json()).toBe(20)
+
+    const tooLarge = await fetch('http://localhost:3338/items?limit=500')
+    expect(tooLarge.status).toBe(400)
+
+    const notNumber = await fetch('http://localhost:3338/items?limit=ten')
+    expect((await notNumber.json()).fields[0].message).toBe(
+      'limit must be an integer'
+    )
+  })
+})
+
+describe('JWT authentication', () => {
+  const secret = 'integration-secret'
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    process.env.TEST_JWT_SECRET = secret
+    app = createApp(
+      parseCSS(`
+        [path="/me"]:GET {
+          @auth jwt { secret: env(TEST_JWT_SECRET); }
+          header-x-user: var(--auth-sub);
+          @return json(var(--auth));
+        }
+
+        [path="/claims"]:GET {
+          --claims: jwt(header(authorization), env(TEST_JWT_SECRET));
+          @return json(if(--claims: "valid"; else: "invalid"));
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3339, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    delete process.env.TEST_JWT_SECRET
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  it('should reject requests without a valid token', async () => {
+    const missing = await fetch('http://localhost:3339/me')
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer')
+    expect(await missing.json()).toEqual({ error: 'Unauthorized' })
+
+    const forged = await fetch('http://localhost:3339/me', {
+      headers: { authorization: `Bearer ${signJwt({ sub: 1 }, 'wrong')}` },
+    })
+    expect(forged.status).toBe(401)
+  })
+
+  it('should expose claims as variables', async () => {
+    const res = await fetch('http://localhost:3339/me', {
+      headers: { authorization: `Bearer ${signJwt({ sub: 42 }, secret)}` },
+    })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-user')).toBe('42')
+    expect(await res.json()).toEqual({ sub: 42 })
+  })
+
+  it('should return null from jwt() for invalid tokens', async () => {
+    const valid = await fetch('http://localhost:3339/claims', {
+      headers: { authorization: `Bearer ${signJwt({ sub: 1 }, secret)}` },
+    })
+    expect(await valid.json()).toBe('valid')
+
+    const invalid = await fetch('http://localhost:3339/claims')
+    expect(await invalid.json()).toBe('invalid')
+  })
+})
+
+describe('Rate limiting', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        @rate-limit [path="/global"] {
+          limit: 1 / 1h;
+        }
+
+        [path="/global"]:GET {
+          @return json("ok");
+        }
+
+        [path="/search"]:GET {
+          rate-limit: 2 / 1h by header(x-api-key);
+          @return json("ok");
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3340, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  function search(key: string) {
+    return fetch('http://localhost:3340/search', {
+      headers: { 'x-api-key': key },
+    })
+  }
+
+  it('should reject requests over the limit with 429', async () => {
+    const first = await search('a')
+    expect(first.status).toBe(200)
+    expect(first.headers.get('ratelimit-limit')).toBe('2')
+    expect(first.headers.get('ratelimit-remaining')).toBe('1')
+
+    expect((await search('a')).status).toBe(200)
+
+    const limited = await search('a')
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('retry-after')).toBe('1800')
+    expect(await limited.json()).toEqual({ error: 'Too many requests' })
+  })
+
+  it('should limit each key separately', async () => {
+    expect((await search('b')).status).toBe(200)
+  })
+
+  it('should apply global limits by client IP', async () => {
+    expect((await fetch('http://localhost:3340/global')).status).toBe(200)
+    expect((await fetch('http://localhost:3340/global')).status).toBe(429)
+  })
+})
+
+describe('Response caching', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    process.env.TEST_CACHE_VALUE = 'first'
+    app = createApp(
+      parseCSS(`
+        [path="/users"] {
+          &:GET {
+            cache: 1h vary(x-tenant);
+            header-x-source: "users";
+            @return json(env(TEST_CACHE_VALUE));
+          }
+
+          &:POST {
+            invalidate: "/users*";
+            @return json({ "created": true });
+          }
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3341, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    delete process.env.TEST_CACHE_VALUE
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  it('should serve cached responses with an ETag', async () => {
+    const first = await fetch('http://localhost:3341/users')
+    expect(first.headers.get('x-cache')).toBe('MISS')
+    expect(await first.json()).toBe('first')
+
+    process.env.TEST_CACHE_VALUE = 'second'
+
+    const second = await fetch('http://localhost:3341/users')
+    expect(second.headers.get('x-cache')).toBe('HIT')
+    expect(second.headers.get('x-source')).toBe('users')
+    expect(second.headers.get('content-type')).toContain('application/json')
+    expect(second.headers.get('etag')).toBe(first.headers.get('etag'))
+    expect(await second.json()).toBe('first')
+  })
+
+  it('should answer If-None-Match with 304', async () => {
+    const first = await fetch('http://localhost:3341/users')
+    const res = await fetch('http://localhost:3341/users', {
+      // fetch() adds `Cache-Control: no-cache` to conditional requests
+      // unless one is given, which would make Express skip the 304.
+      headers: {
+        'if-none-match': first.headers.get('etag') ?? '',
+        'cache-control': 'max-age=0',
+      },
+    })
+    expect(res.status).toBe(304)
+  })
+
+  it('should key entries by the vary headers', async () => {
+    const res = await fetch('http://localhost:3341/users', {
+      headers: { 'x-tenant': 'other' },
+    })
+    expect(res.headers.get('x-cache')).toBe('MISS')
+    expect(await res.json()).toBe('second')
+  })
+
+  it('should invalidate matching entries after a write', async () => {
+    await fetch('http://localhost:3341/users', { method: 'POST' })
+    process.env.TEST_CACHE_VALUE = 'third'
+
+    const res = await fetch('http://localhost:3341/users')
+    expect(res.headers.get('x-cache')).toBe('MISS')
+    expect(await res.json()).toBe('third')
+  })
+})
+
+describe('Transactions', () => {
+  let app: CSSApp
+  let server: ReturnType<express.Application['listen']>
+
+  beforeAll(async () => {
+    app = createApp(
+      parseCSS(`
+        @server {
+          database: ":memory:";
+        }
+
+        @database {
+          CREATE TABLE orders (id INTEGER PRIMARY KEY, customer TEXT NOT NULL);
+          CREATE TABLE items (order_id INTEGER, sku TEXT NOT NULL);
+        }
+
+        [path="/orders"] {
+          &:GET {
+            @return json(sql("SELECT COUNT(*) AS count FROM orders LIMIT 1"));
+          }
+
+          &:POST {
+            @transaction {
+              status: 409;
+              @return json({ "error": "Order could not be saved" });
+            }
+            --order: sql("INSERT INTO orders (customer) VALUES (?)", body(customer));
+            --item: sql("INSERT INTO items (order_id, sku) VALUES (1, ?)", body(sku));
+            header-x-order: "created";
+            status: 201;
+            @return json(var(--order));
+          }
+        }
+
+        [path="/plain"]:POST {
+          transaction: true;
+          --order: sql("INSERT INTO orders (customer) VALUES (?)", body(customer));
+          --item: sql("INSERT INTO items (order_id, sku) VALUES (1, ?)", body(sku));
+          @return json(var(--order));
+        }
+      `)
+    )
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(3342, () => resolve())
+    })
+  })
+
+  afterAll(async () => {
+    app.close()
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve())
+    })
+  })
+
+  function post(path: string, body: Record<string, unknown>) {
+    return fetch(`http://localhost:3342${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  async function countOrders() {
+    const res = await fetch('http://localhost:3342/orders')
+    return ((await res.json()) as { count: number }).count
+  }
+
+  it('should commit all statements on success', async () => {
+    const res = await post('/orders', { customer: 'Ann', sku: 'A-1' })
+    expect(res.status).toBe(201)
+    expect(res.headers.get('x-order')).toBe('created')
+    expect(await countOrders()).toBe(1)
+  })
+
+  it('should roll back and send the @transaction response', async () => {
+    const res = await post('/orders', { customer: 'Bob' })
+    expect(res.status).toBe(409)
+    expect(res.headers.get('x-order')).toBeNull()
+    expect(await res.json()).toEqual({ error: 'Order could not be saved' })
+    expect(await countOrders()).toBe(1)
+  })
+
+  it('should default to a 500 response', async () => {
+    const res = await post('/plain', { customer: 'Cy' })
+    expect(res.status).toBe(500)
+    expect(await res.json()).toEqual({ error: 'Transaction failed' })
+    expect(await countOrders()).toBe(1)
+  })
+})
+
+describe('Separate apps', () => {
+  const servers: ReturnType<express.Application['listen']>[] = []
+  let first: CSSApp
+  let second: CSSApp
+
+  function createCounterApp(): CSSApp {
+    return createApp(
+      parseCSS(`
+        @server {
+          driver: memory;
+          database: counter;
+        }
+
+        @database {
+          CREATE TABLE hits (id INTEGER PRIMARY KEY);
+        }
+
+        [path="/hits"] {
+          &:GET {
+            @return json(sql-value("SELECT COUNT(*) FROM hits"));
+          }
+
+          &:POST {
+            @return json(sql-run("INSERT INTO hits DEFAULT VALUES"));
+          }
+        }
+      `)
+    )
+  }
+
+  beforeAll(async () => {
+    first = createCounterApp()
+    second = createCounterApp()
+
+    const apps: [CSSApp, number][] = [
+      [first, 3343],
+      [second, 3344],
+    ]
+    await Promise.all(
+      apps.map(
+        ([app, port]) =>
+          new Promise<void>((resolve) => {
+            servers.push(app.listen(port, () => resolve()))
+          })
+      )
+    )
+  })
+
+  afterAll(async () => {
+    first.close()
+    second.close()
+    await Promise.all(
+      servers.map(
+        (server) =>
+          new Promise<void>((resolve) => {
+            server.close(() => resolve())
+          })
+      )
+    )
+  })
+
+  async function hits(port: number) {
+    const res = await fetch(`http://localhost:${port}/hits`)
+    return res.json()
+  }
+
+  it('should give each app its own database', async () => {
+    await fetch('http://localhost:3343/hits', { method: 'POST' })
+    await fetch('http://localhost:3343/hits', { method: 'POST' })
+
+    expect(await hits(3343)).toBe(2)
+    expect(await hits(3344)).toBe(0)
+  })
+
+  it('should close only its own database', async () => {
+    first.close()
+
+    expect(await hits(3343)).toEqual({ error: 'Database not configured' })
+    expect(await hits(3344)).toBe(0)
+  })
+})
@@ -0,0 +1,76 @@
+import crypto from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { signJwt, verifyJwt } from '../src/jwt.js'
+
+const SECRET = 'test-secret'
+const NOW = Date.UTC(2024, 0, 1)
+const SECONDS = NOW / 1000
+
+function signRs256(claims: Record<string, unknown>, privateKey: string) {
+  const header = Buffer.from(
+    JSON.stringify({ alg: 'RS256', typ: 'JWT' })
+  ).toString('base64url')
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  const signature = crypto
+    .sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey)
+    .toString('base64url')
+  return `${header}.${payload}.${signature}`
+}
+
+describe('JWT', () => {
+  it('should verify HS256 tokens and return their claims', () => {
+    const token = signJwt({ sub: 7, role: 'admin' }, SECRET)
+    expect(verifyJwt(token, SECRET, NOW)).toEqual({ sub: 7, role: 'admin' })
+  })
+
+  it('should accept a Bearer prefix', () => {
+    const token = signJwt({ sub: 7 }, SECRET)
+    expect(verifyJwt(`Bearer ${token}`, SECRET, NOW)).toEqual({ sub: 7 })
+  })
+
+  it('should reject wrong secrets and tampered payloads', () => {
+    const token = signJwt({ sub: 7 }, SECRET)
+    expect(verifyJwt(token, 'other-secret', NOW)).toBeNull()
+
+    const [header, , signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ sub: 1 })).toString('base64url')
+    expect(
+      verifyJwt(`${header}.${forged}.${signature}`, SECRET, NOW)
+    ).toBeNull()
+  })
+
+  it('should check exp and nbf', () => {
+    expect(
+      verifyJwt(signJwt({ exp: SECONDS - 1 }, SECRET), SECRET, NOW)
+    ).toBeNull()
+    expect(
+      verifyJwt(signJwt({ nbf: SECONDS + 60 }, SECRET), SECRET, NOW)
+    ).toBeNull()
+    expect(
+      verifyJwt(
+        signJwt({ nbf: SECONDS, exp: SECONDS + 60 }, SECRET),
+        SECRET,
+        NOW
+      )
+    ).toEqual({ nbf: SECONDS, exp: SECONDS + 60 })
+  })
+
+  it('should reject malformed input', () => {
+    expect(verifyJwt(undefined, SECRET, NOW)).toBeNull()
+    expect(verifyJwt('not-a-token', SECRET, NOW)).toBeNull()
+    expect(verifyJwt(signJwt({ sub: 7 }, SECRET), undefined, NOW)).toBeNull()
+  })
+
+  it('should verify RS256 tokens with a PEM public key', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    })
+    const token = signRs256({ sub: 'abc' }, privateKey)
+
+    expect(verifyJwt(token, publicKey, NOW)).toEqual({ sub: 'abc' })
+    // An HS256 token signed with the public key must not pass as RS256.
+    expect(verifyJwt(signJwt({ sub: 'abc' }, publicKey), publicKey)).toBeNull()
+  })
+})
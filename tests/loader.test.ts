@@ -0,0 +1,184 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadCSSFile } from '../src/loader.js'
+
+describe('Loader', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'css-loader-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function write(file: string, css: string): string {
+    const filePath = path.join(dir, file)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, css)
+    return filePath
+  }
+
+  it('should load a file without imports', () => {
+    const entry = write(
+      'app.css',
+      `[path="/"]:GET { @return html("<h1>Home</h1>"); }`
+    )
+    const result = loadCSSFile(entry)
+    expect(result.routes).toHaveLength(1)
+    expect(result.files).toEqual([entry])
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('should merge routes from imported files in import order', () => {
+    write('users.css', `[path="/users"]:GET { @return json([]); }`)
+    write('resources/posts.css', `[path="/posts"]:GET { @return json([]); }`)
+    const entry = write(
+      'app.css',
+      `
+        @import "users.css";
+        @import url("./resources/posts.css");
+        [path="/"]:GET { @return json({}); }
+      `
+    )
+    const result = loadCSSFile(entry)
+    expect(result.routes.map((route) => route.path)).toEqual([
+      '/users',
+      '/posts',
+      '/',
+    ])
+    expect(result.files).toHaveLength(3)
+  })
+
+  it('should resolve nested imports relative to the importing file', () => {
+    write('api/index.css', `@import "users/routes.css";`)
+    write('api/users/routes.css', `[path="/users"]:GET { @return json([]); }`)
+    const entry = write('app.css', `@import "api/index.css";`)
+    const result = loadCSSFile(entry)
+    expect(result.routes[0].path).toBe('/users')
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('should merge @server blocks with the importing file winning', () => {
+    write('server.css', `@server { port: 4000; database: ./shared.db; }`)
+    const entry = write(
+      'app.css',
+      `
+        @import "server.css";
+        @server { port: 5000; }
+      `
+    )
+    const result = loadCSSFile(entry)
+    expect(result.config.port).toBe(5000)
+    expect(result.config.database).toBe('./shared.db')
+  })
+
+  it('should merge @database blocks from all files', () => {
+    write('users.css', `@database { CREATE TABLE users (id INTEGER); }`)
+    const entry = write(
+      'app.css',
+      `
+        @import "users.css";
+        @database { CREATE TABLE posts (id INTEGER); }
+      `
+    )
+    const result = loadCSSFile(entry)
+    expect(result.schema).toContain('CREATE TABLE users')
+    expect(result.schema).toContain('CREATE TABLE posts')
+    expect(result.schema!.indexOf('users')).toBeLessThan(
+      result.schema!.indexOf('posts')
+    )
+  })
+
+  it('should collect @migration blocks from imported files first', () => {
+    const users = write(
+      'users.css',
+      `@migration "001-users" { CREATE TABLE users (id INTEGER); }`
+    )
+    const entry = write(
+      'app.css',
+      `
+        @server { database: ./app.db; }
+        @import "users.css";
+        @migration "002-posts" { CREATE TABLE posts (id INTEGER); }
+      `
+    )
+    const result = loadCSSFile(entry)
+    expect(result.diagnostics).toEqual([])
+    expect(
+      result.migrations.map((migration) => [
+        migration.name,
+        migration.source?.file,
+      ])
+    ).toEqual([
+      ['001-users', users],
+      ['002-posts', entry],
+    ])
+  })
+
+  it('should report import cycles with the chain of files', () => {
+    write('a.css', `@import "b.css";`)
+    write('b.css', `@import "a.css";`)
+    const entry = write('app.css', `@import "a.css";`)
+    const result = loadCSSFile(entry)
+    expect(result.diagnostics).toHaveLength(1)
+    expect(result.diagnostics[0].severity).toBe('error')
+    expect(result.diagnostics[0].file).toBe(path.join(dir, 'b.css'))
+    expect(result.diagnostics[0].message).toMatch(
+      /^Import cycle: .*a\.css -> .*b\.css -> .*a\.css$/
+    )
+  })
+
+  it('should include a file imported twice only once', () => {
+    write('shared.css', `[path="/shared"]:GET { @return json({}); }`)
+    write('a.css', `@import "shared.css";`)
+    const entry = write('app.css', `@import "a.css"; @import "shared.css";`)
+    const result = loadCSSFile(entry)
+    expect(result.routes).toHaveLength(1)
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('should report missing imported files', () => {
+    const entry = write('app.css', `\n@import "missing.css";`)
+    const result = loadCSSFile(entry)
+    expect(result.diagnostics[0]).toMatchObject({
+      severity: 'error',
+      file: entry,
+      line: 2,
+    })
+    expect(result.diagnostics[0].message).toContain('missing.css')
+  })
+
+  it('should point diagnostics at the file that contains the problem', () => {
+    const users = write(
+      'users.css',
+      `\n\n[path="/users"]:GET {\n  --x: nope();\n  @return json(var(--x));\n}`
+    )
+    const entry = write('app.css', `@import "users.css";`)
+    const result = loadCSSFile(entry)
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'error',
+        message: 'Unknown function nope()',
+        file: users,
+        line: 4,
+        column: 3,
+      },
+    ])
+  })
+
+  it('should report syntax errors in imported files', () => {
+    const broken = write('broken.css', `[path="/x"]:GET {`)
+    const entry = write(
+      'app.css',
+      `@import "broken.css"; [path="/"]:GET { @return json({}); }`
+    )
+    const result = loadCSSFile(entry)
+    expect(result.routes).toHaveLength(1)
+    expect(result.diagnostics[0].file).toBe(broken)
+    expect(result.diagnostics[0].severity).toBe('error')
+  })
+})
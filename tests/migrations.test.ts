@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { DatabaseAdapter, createMemoryAdapter } from '../src/drivers.js'
+import { applyMigrations, getMigrationStatus } from '../src/migrations.js'
+import { Migration } from '../src/types.js'
+
+describe('Migrations', () => {
+  let db: DatabaseAdapter
+
+  const createUsers: Migration = {
+    name: '001-create-users',
+    sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);',
+  }
+  const addEmail: Migration = {
+    name: '002-add-email',
+    sql: 'ALTER TABLE users ADD COLUMN email TEXT;',
+  }
+
+  beforeEach(() => {
+    db = createMemoryAdapter()
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  function columns(): string[] {
+    return db
+      .queryAll('SELECT name FROM pragma_table_info(?)', ['users'])
+      .map((row) => row.name as string)
+  }
+
+  it('should apply migrations in order and record them', () => {
+    expect(applyMigrations(db, [createUsers, addEmail])).toEqual([
+      '001-create-users',
+      '002-add-email',
+    ])
+    expect(columns()).toEqual(['id', 'name', 'email'])
+    expect(db.queryAll('SELECT name FROM _migrations ORDER BY name')).toEqual([
+      { name: '001-create-users' },
+      { name: '002-add-email' },
+    ])
+  })
+
+  it('should skip applied migrations on later runs', () => {
+    applyMigrations(db, [createUsers])
+    expect(applyMigrations(db, [createUsers, addEmail])).toEqual([
+      '002-add-email',
+    ])
+    expect(applyMigrations(db, [createUsers, addEmail])).toEqual([])
+  })
+
+  it('should report pending, applied and changed migrations', () => {
+    applyMigrations(db, [createUsers])
+
+    const statuses = getMigrationStatus(db, [
+      { ...createUsers, sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+      addEmail,
+    ])
+    expect(statuses).toEqual([
+      {
+        name: '001-create-users',
+        state: 'changed',
+        appliedAt: expect.any(String),
+      },
+      { name: '002-add-email', state: 'pending' },
+    ])
+  })
+
+  it('should report status without creating the migrations table', () => {
+    expect(getMigrationStatus(db, [createUsers])).toEqual([
+      { name: '001-create-users', state: 'pending' },
+    ])
+    expect(
+      db.queryOne("SELECT name FROM sqlite_master WHERE name = '_migrations'")
+    ).toBeNull()
+  })
+
+  it('should leave the database alone without migrations', () => {
+    expect(applyMigrations(db, [])).toEqual([])
+    expect(
+      db.queryOne("SELECT name FROM sqlite_master WHERE name = '_migrations'")
+    ).toBeNull()
+  })
+
+  it('should report every migration as pending without a database', () => {
+    expect(getMigrationStatus(null, [createUsers, addEmail])).toEqual([
+      { name: '001-create-users', state: 'pending' },
+      { name: '002-add-email', state: 'pending' },
+    ])
+  })
+
+  it('should refuse to run when an applied migration changed', () => {
+    applyMigrations(db, [createUsers])
+
+    expect(() =>
+      applyMigrations(db, [
+        { ...createUsers, sql: 'CREATE TABLE users (id INTEGER);' },
+        addEmail,
+      ])
+    ).toThrow('Applied migrations have changed: 001-create-users')
+    expect(columns()).toEqual(['id', 'name'])
+  })
+
+  it('should roll back a failing migration', () => {
+    const broken: Migration = {
+      name: '002-broken',
+      sql: 'CREATE TABLE posts (id INTEGER); INSERT INTO missing VALUES (1);',
+    }
+
+    applyMigrations(db, [createUsers])
+    expect(() => applyMigrations(db, [createUsers, broken])).toThrow(
+      'no such table: missing'
+    )
+    expect(getMigrationStatus(db, [createUsers, broken])[1].state).toBe(
+      'pending'
+    )
+    expect(
+      db.queryOne("SELECT name FROM sqlite_master WHERE name = 'posts'")
+    ).toBeNull()
+  })
+})
@@ -65,6 +65,211 @@ describe('Parser', () => {
       const result = parseCSS(css)
       expect(result.config.host).toBe('127.0.0.1')
     })
+
+    it('should parse named database connections with the first as default', () => {
+      const css = `
+        @server {
+          database: main ./app.db;
+          database: audit env(MISSING_AUDIT_DB, ./audit.db);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.config.database).toBe('./app.db')
+      expect(result.config.databases).toEqual({
+        main: './app.db',
+        audit: './audit.db',
+      })
+    })
+
+    it('should name an unnamed database connection main', () => {
+      const css = `
+        @server {
+          database: ./app.db;
+          database: audit ./audit.db;
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.config.databases).toEqual({
+        main: './app.db',
+        audit: './audit.db',
+      })
+    })
+  })
+
+  describe('Database Connections', () => {
+    const server = `
+      @server {
+        database: main ./app.db;
+        database: audit ./audit.db;
+      }
+    `
+
+    it('should assign @database blocks to their connection', () => {
+      const css = `
+        ${server}
+        @database { CREATE TABLE users (id INTEGER); }
+        @database audit { CREATE TABLE events (id INTEGER); }
+        @database main { CREATE TABLE posts (id INTEGER); }
+        @database audit { CREATE TABLE logins (id INTEGER); }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.schema).toBe(
+        'CREATE TABLE users (id INTEGER);\n\nCREATE TABLE posts (id INTEGER);'
+      )
+      expect(result.schemas).toEqual({
+        audit:
+          'CREATE TABLE events (id INTEGER);\n\nCREATE TABLE logins (id INTEGER);',
+      })
+    })
+
+    it('should report @database blocks for unknown connections', () => {
+      const css = `
+        ${server}
+        @database stats { CREATE TABLE hits (id INTEGER); }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toMatchObject([
+        {
+          severity: 'error',
+          message:
+            '@database stats: no database connection named "stats" in @server',
+          line: 8,
+        },
+      ])
+    })
+
+    it('should parse a connection as the first sql() argument', () => {
+      const css = `
+        ${server}
+        [path="/events"]:POST {
+          --event: sql-run(audit, "INSERT INTO events (action) VALUES (?)", body(action));
+          @return json(var(--event));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].variables[0].value).toEqual({
+        type: 'sql',
+        query: 'INSERT INTO events (action) VALUES (?)',
+        args: [{ type: 'body', fieldName: 'action' }],
+        connection: 'audit',
+        mode: 'run',
+      })
+    })
+
+    it('should report sql() calls on unknown connections', () => {
+      const css = `
+        ${server}
+        [path="/hits"]:GET {
+          @return json(sql-all(stats, "SELECT * FROM hits"));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        'Unknown database connection "stats" in route GET /hits',
+      ])
+    })
+  })
+
+  describe('CORS Parsing', () => {
+    it('should parse a global @cors block with defaults', () => {
+      const result = parseCSS(`@cors { origin: *; }`)
+      expect(result.cors).toEqual([
+        {
+          path: undefined,
+          origins: ['*'],
+          methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'],
+          headers: [],
+          exposeHeaders: [],
+          credentials: false,
+          source: expect.any(Object),
+        },
+      ])
+    })
+
+    it('should parse all @cors properties', () => {
+      const css = `
+        @cors [path="/api/*"] {
+          origin: "https://app.example.com", "http://localhost:5173";
+          methods: get, post;
+          headers: Content-Type, Authorization;
+          expose-headers: X-Total-Count;
+          credentials: true;
+          max-age: 600;
+        }
+      `
+      const [cors] = parseCSS(css).cors
+      expect(cors.path).toBe('/api/*')
+      expect(cors.origins).toEqual([
+        'https://app.example.com',
+        'http://localhost:5173',
+      ])
+      expect(cors.methods).toEqual(['GET', 'POST'])
+      expect(cors.headers).toEqual(['Content-Type', 'Authorization'])
+      expect(cors.exposeHeaders).toEqual(['X-Total-Count'])
+      expect(cors.credentials).toBe(true)
+      expect(cors.maxAge).toBe(600)
+    })
+
+    it('should reject credentials with a wildcard origin', () => {
+      const css = `
+        @cors { credentials: true; }
+        @cors [path="/api/*"] {
+          origin: "https://app.example.com", *;
+          credentials: true;
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          message:
+            '@cors credentials need an explicit origin list instead of *',
+          line: 2,
+          column: 9,
+        },
+        {
+          severity: 'error',
+          message:
+            '@cors credentials need an explicit origin list instead of *',
+          line: 3,
+          column: 9,
+        },
+      ])
+      expect(result.cors.map((cors) => cors.credentials)).toEqual([
+        false,
+        false,
+      ])
+    })
+
+    it('should parse @cors inside @server as global', () => {
+      const css = `
+        @server {
+          port: 4000;
+          @cors { origin: env(MISSING_CORS_ORIGIN, "https://a.test"); }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.config.port).toBe(4000)
+      expect(result.cors[0].path).toBeUndefined()
+      expect(result.cors[0].origins).toEqual(['https://a.test'])
+    })
+
+    it('should report unknown methods and properties', () => {
+      const css = `
+        @cors {
+          methods: GET, FETCH;
+          origins: *;
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.cors[0].methods).toEqual(['GET'])
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        'Unknown CORS method FETCH',
+        'Unknown @cors property origins',
+      ])
+    })
   })
 
   describe('Route Parsing', () => {
@@ -158,6 +363,171 @@ describe('Parser', () => {
     })
   })
 
+  describe('Nested Rules', () => {
+    it('should prefix nested route paths', () => {
+      const css = `
+        [path="/api"] {
+          [path="/users"]:GET {
+            @return json([]);
+          }
+          [path="/users/:id"]:DELETE {
+            @return json({});
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes.map((r) => `${r.method} ${r.path}`)).toEqual([
+        'GET /api/users',
+        'DELETE /api/users/:id',
+      ])
+      expect(result.diagnostics).toEqual([])
+    })
+
+    it('should join prefixes across several levels and slashes', () => {
+      const css = `
+        [path="/api/"] {
+          [path="v1"] {
+            [path="/users/"]:GET { @return json([]); }
+            [path="/"]:GET { @return json({}); }
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes.map((r) => r.path)).toEqual([
+        '/api/v1/users',
+        '/api/v1',
+      ])
+    })
+
+    it('should use the parent path for nested method-only selectors', () => {
+      const css = `
+        [path="/users"] {
+          &:GET { @return json([]); }
+          :POST { @return json({}); }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes.map((r) => `${r.method} ${r.path}`)).toEqual([
+        'GET /users',
+        'POST /users',
+      ])
+    })
+
+    it('should inherit parent declarations as prefix variables', () => {
+      const css = `
+        [path="/admin"] {
+          --role: header(x-user-role);
+          [path="/stats"]:GET {
+            --allowed: if(--role = admin: true; else: false);
+            @return json(var(--allowed));
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].variables.map((v) => v.name)).toEqual([
+        'role',
+        'allowed',
+      ])
+      expect(result.diagnostics).toEqual([])
+    })
+
+    it('should keep nested declarations out of the parent route', () => {
+      const css = `
+        [path="/users"]:GET {
+          --list: 1;
+          @return json(var(--list));
+          [path="/:id"]:GET {
+            --id: param(:id);
+            @return json(var(--id));
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes).toHaveLength(2)
+      expect(result.routes[0].path).toBe('/users')
+      expect(result.routes[0].variables.map((v) => v.name)).toEqual(['list'])
+      expect(result.routes[0].return.value).toEqual({
+        type: 'var',
+        name: 'list',
+      })
+      expect(result.routes[1].path).toBe('/users/:id')
+      expect(result.routes[1].variables.map((v) => v.name)).toEqual([
+        'list',
+        'id',
+      ])
+    })
+
+    it('should warn about a method-only rule outside of a prefix', () => {
+      const css = `
+        :GET {
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes).toHaveLength(0)
+      expect(result.diagnostics[0].message).toContain('no [path] attribute')
+    })
+  })
+
+  describe('Middleware Parsing', () => {
+    it('should parse @before with path, method and body', () => {
+      const css = `
+        @before [path="/admin/*"]:POST {
+          --key: header(x-api-key);
+          status: 401;
+          @return json(if(not --key: { "error": "Missing API key" }));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.middleware).toHaveLength(1)
+      expect(result.middleware[0].path).toBe('/admin/*')
+      expect(result.middleware[0].method).toBe('POST')
+      expect(result.middleware[0].variables[0].name).toBe('key')
+      expect(result.middleware[0].status).toEqual({
+        type: 'literal',
+        value: 401,
+      })
+      expect(result.middleware[0].return?.value.type).toBe('if')
+      expect(result.diagnostics).toEqual([])
+    })
+
+    it('should parse @before without selector for all routes', () => {
+      const css = `
+        @before {
+          --requestId: header(x-request-id);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.middleware[0].path).toBeUndefined()
+      expect(result.middleware[0].method).toBeUndefined()
+      expect(result.middleware[0].return).toBeUndefined()
+    })
+
+    it('should let routes use variables from matching @before blocks', () => {
+      const css = `
+        @before [path="/admin/*"] {
+          --role: header(x-user-role);
+        }
+        [path="/admin/users/:id"]:GET {
+          @return json(var(--role));
+        }
+        [path="/public"]:GET {
+          @return json(var(--role));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        'Variable --role is not declared in route GET /public',
+      ])
+    })
+
+    it('should report @before selectors without path or method', () => {
+      const result = parseCSS(`@before .admin { --x: 1; }`)
+      expect(result.middleware).toHaveLength(0)
+      expect(result.diagnostics[0].severity).toBe('error')
+    })
+  })
+
   describe('Variable Assignments', () => {
     it('should parse param() function', () => {
       const css = `
@@ -285,6 +655,103 @@ describe('Parser', () => {
         expect(returnVal.args[0].type).toBe('var')
       }
     })
+
+    it('should parse result-shape functions', () => {
+      const css = `
+        [path="/posts/:author"]:GET {
+          --author: param(:author);
+          --one: sql-one("SELECT * FROM posts WHERE author_id = ?", var(--author));
+          --all: sql-all("SELECT * FROM posts WHERE author_id = ?", var(--author));
+          --count: sql-value("SELECT COUNT(*) FROM posts");
+          --deleted: sql-run("DELETE FROM posts WHERE author_id = ?", var(--author));
+          @return json(var(--all));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(
+        result.routes[0].variables
+          .slice(1)
+          .map((variable) =>
+            isExpressionType(variable.value, 'sql') ? variable.value.mode : null
+          )
+      ).toEqual(['one', 'all', 'value', 'run'])
+    })
+
+    it('should warn when plain sql() has to guess the result shape', () => {
+      const css = `
+        [path="/posts"]:GET {
+          --a: query(a);
+          --b: query(b);
+          --one: sql("SELECT * FROM posts WHERE author_id = ?", var(--a));
+          --all: sql("SELECT * FROM posts WHERE a = ? AND b = ?", var(--a), var(--b));
+          --list: sql("SELECT * FROM posts");
+          --insert: sql("INSERT INTO posts (a) VALUES (?)", var(--a));
+          @return json(var(--list));
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'sql() guesses that this query returns one row; use sql-one() or sql-all() instead',
+        'sql() guesses that this query returns all rows; use sql-one() or sql-all() instead',
+      ])
+    })
+
+    it('should parse named arguments into a map', () => {
+      const css = `
+        [path="/users/:id"]:PUT {
+          @return json(sql-run(
+            "UPDATE users SET name = :name, email = :email WHERE id = :id",
+            name: body(name),
+            email: body(email),
+            id: param(:id)
+          ));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].return.value).toEqual({
+        type: 'sql',
+        query: 'UPDATE users SET name = :name, email = :email WHERE id = :id',
+        args: [],
+        namedArgs: {
+          name: { type: 'body', fieldName: 'name' },
+          email: { type: 'body', fieldName: 'email' },
+          id: { type: 'param', paramName: 'id' },
+        },
+        mode: 'run',
+      })
+    })
+
+    it('should report missing, extra and mixed named arguments', () => {
+      const css = `
+        [path="/a"]:POST {
+          --a: sql-run("UPDATE t SET x = :x WHERE id = :id AND note = ':skip'", x: 1, y: 2);
+          --b: sql-run("UPDATE t SET x = :x WHERE id = ?", x: 1, 2);
+          --c: sql-run("UPDATE t SET x = :x", 1);
+          @return json({});
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'sql-run() is missing named arguments: id',
+        'sql-run() query does not use named arguments: y',
+        'sql-run() cannot mix positional and named arguments',
+        'sql-run() query uses named parameters; pass them as name: value',
+      ])
+    })
+
+    it('should report malformed result-shape calls', () => {
+      const css = `
+        [path="/posts"]:GET {
+          @return json(sql-all(posts));
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'Malformed sql-all() call: expected a quoted query followed by arguments',
+      ])
+    })
   })
 
   describe('If Expression Parsing', () => {
@@ -396,94 +863,1154 @@ describe('Parser', () => {
     })
   })
 
-  describe('Status Parsing', () => {
-    it('should parse literal status', () => {
-      const css = `
+  describe('Calc Parsing', () => {
+    function parseValue(value: string) {
+      const result = parseCSS(`
         [path="/test"]:GET {
-          status: 404;
-          @return json({});
+          --x: ${value};
+          @return json(var(--x));
         }
-      `
-      const result = parseCSS(css)
-      expect(result.routes[0].status?.type).toBe('literal')
-      expect(result.routes[0].status?.value).toBe(404)
+      `)
+      return {
+        value: result.routes[0].variables[0].value,
+        messages: result.diagnostics.map((d) => d.message),
+      }
+    }
+
+    it('should give * / % precedence over + and -', () => {
+      const { value, messages } = parseValue('calc(1 + 2 * 3)')
+      expect(messages).toEqual([])
+      expect(value).toEqual({
+        type: 'arithmetic',
+        operator: '+',
+        left: { type: 'literal', value: 1 },
+        right: {
+          type: 'arithmetic',
+          operator: '*',
+          left: { type: 'literal', value: 2 },
+          right: { type: 'literal', value: 3 },
+        },
+      })
     })
 
-    it('should parse if status', () => {
+    it('should parse parentheses and function operands', () => {
+      const { value, messages } = parseValue('calc((query(page) - 1) * 20)')
+      expect(messages).toEqual([])
+      expect(value).toEqual({
+        type: 'arithmetic',
+        operator: '*',
+        left: {
+          type: 'arithmetic',
+          operator: '-',
+          left: { type: 'query', paramName: 'page' },
+          right: { type: 'literal', value: 1 },
+        },
+        right: { type: 'literal', value: 20 },
+      })
+    })
+
+    it('should evaluate operators left to right', () => {
+      const { value } = parseValue('calc(10 - 4 - 3)')
+      expect(value).toMatchObject({
+        operator: '-',
+        left: { operator: '-' },
+        right: { type: 'literal', value: 3 },
+      })
+    })
+
+    it('should parse unary minus', () => {
+      expect(parseValue('calc(-2 * param(n))').value).toEqual({
+        type: 'arithmetic',
+        operator: '*',
+        left: { type: 'literal', value: -2 },
+        right: { type: 'param', paramName: 'n' },
+      })
+      expect(parseValue('calc(-var(--n))').value).toEqual({
+        type: 'arithmetic',
+        operator: '-',
+        left: { type: 'literal', value: 0 },
+        right: { type: 'var', name: 'n' },
+      })
+    })
+
+    it('should parse math functions with calc() arguments', () => {
+      const { value, messages } = parseValue('max(1, query(page) - 1)')
+      expect(messages).toEqual([])
+      expect(value).toEqual({
+        type: 'math',
+        fn: 'max',
+        args: [
+          { type: 'literal', value: 1 },
+          {
+            type: 'arithmetic',
+            operator: '-',
+            left: { type: 'query', paramName: 'page' },
+            right: { type: 'literal', value: 1 },
+          },
+        ],
+      })
+    })
+
+    it('should parse math functions inside calc()', () => {
+      expect(parseValue('calc(round(var(--price) * 1.2, 0.01))').value).toEqual(
+        {
+          type: 'math',
+          fn: 'round',
+          args: [
+            {
+              type: 'arithmetic',
+              operator: '*',
+              left: { type: 'var', name: 'price' },
+              right: { type: 'literal', value: 1.2 },
+            },
+            { type: 'literal', value: 0.01 },
+          ],
+        }
+      )
+    })
+
+    it('should report malformed calc() expressions', () => {
+      expect(parseValue('calc(1 +)').messages).toEqual([
+        'Malformed calc() expression "1 +"',
+      ])
+      expect(parseValue('calc(1 2)').messages).toEqual([
+        'Malformed calc() expression "1 2"',
+      ])
+      expect(parseValue('calc(page * 2)').messages).toEqual([
+        'Malformed calc() expression "page * 2"',
+      ])
+    })
+
+    it('should report unknown functions inside calc()', () => {
+      expect(parseValue('calc(count(--x) + 1)').messages).toEqual([
+        'Unknown function count()',
+      ])
+    })
+
+    it('should report undeclared variables used in calc()', () => {
+      expect(parseValue('calc(var(--page) * 20)').messages).toEqual([
+        'Variable --page is not declared in route GET /test',
+      ])
+    })
+
+    it('should report math functions with the wrong number of arguments', () => {
+      expect(parseValue('min()').messages).toEqual([
+        'min() expects at least one value',
+      ])
+      expect(parseValue('abs(1, 2)').messages).toEqual([
+        'abs() expects one value',
+      ])
+      expect(parseValue('round(1, 2, 3)').messages).toEqual([
+        'round() expects a value and an optional step',
+      ])
+    })
+  })
+
+  describe('String Function Parsing', () => {
+    it('should parse string functions with their arguments', () => {
       const css = `
         [path="/test"]:GET {
-          --role: header(x-role);
-          status: if(--role = admin: 200; else: 403);
-          @return json({});
+          --q: query(q);
+          --slug: slugify(body(title));
+          --code: pad-start(param(id), 6, "0");
+          --tags: split(query(tags), ",");
+          @return json(sql-all("SELECT * FROM posts WHERE title LIKE ?", concat("%", lower(var(--q)), "%")));
         }
       `
       const result = parseCSS(css)
-      expect(result.routes[0].status?.type).toBe('if')
+      expect(result.diagnostics).toEqual([])
+      const [, slug, code, tags] = result.routes[0].variables
+      expect(slug.value).toEqual({
+        type: 'string',
+        fn: 'slugify',
+        args: [{ type: 'body', fieldName: 'title' }],
+      })
+      expect(code.value).toEqual({
+        type: 'string',
+        fn: 'pad-start',
+        args: [
+          { type: 'param', paramName: 'id' },
+          { type: 'literal', value: 6 },
+          { type: 'literal', value: '0' },
+        ],
+      })
+      expect(tags.value).toMatchObject({
+        fn: 'split',
+        args: [{ type: 'query' }, { type: 'literal', value: ',' }],
+      })
+
+      const returnValue = result.routes[0].return.value
+      if (isExpressionType(returnValue, 'sql')) {
+        expect(returnValue.args[0]).toEqual({
+          type: 'concat',
+          parts: [
+            { type: 'literal', value: '%' },
+            {
+              type: 'string',
+              fn: 'lower',
+              args: [{ type: 'var', name: 'q' }],
+            },
+            { type: 'literal', value: '%' },
+          ],
+        })
+      }
     })
 
-    it('should parse status from var', () => {
+    it('should report string functions with the wrong number of arguments', () => {
       const css = `
         [path="/test"]:GET {
-          --code: 201;
-          status: var(--code);
+          --a: upper();
+          --b: replace(query(q), "a");
+          --c: substring(query(q), 1, 2, 3);
           @return json({});
         }
       `
-      const result = parseCSS(css)
-      expect(result.routes[0].status?.type).toBe('var')
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'upper() expects 1 argument, got 0',
+        'replace() expects 3 arguments, got 2',
+        'substring() expects 2 to 3 arguments, got 4',
+      ])
     })
-  })
 
-  describe('Database Schema Parsing', () => {
-    it('should parse single @database block', () => {
+    it('should check variables used in string functions', () => {
       const css = `
-        @database {
-          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
-          CREATE INDEX users_name ON users(name);
+        [path="/test"]:GET {
+          @return json(upper(var(--name)));
         }
       `
-      const result = parseCSS(css)
-      expect(result.schema).toContain('CREATE TABLE users')
-      expect(result.schema).toContain('CREATE INDEX users_name')
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'Variable --name is not declared in route GET /test',
+      ])
     })
+  })
 
-    it('should return undefined when @database is missing', () => {
+  describe('Type Cast Parsing', () => {
+    it('should parse cast functions', () => {
       const css = `
-        [path="/"]:GET {
-          @return json({});
+        [path="/test"]:GET {
+          --age: int(query(age));
+          --filters: json-parse(query(filters));
+          @return json(bool(query(draft)));
         }
       `
       const result = parseCSS(css)
-      expect(result.schema).toBeUndefined()
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].variables.map((v) => v.value)).toEqual([
+        { type: 'cast', to: 'int', value: { type: 'query', paramName: 'age' } },
+        {
+          type: 'cast',
+          to: 'json',
+          value: { type: 'query', paramName: 'filters' },
+        },
+      ])
+      expect(result.routes[0].return.value).toEqual({
+        type: 'cast',
+        to: 'bool',
+        value: { type: 'query', paramName: 'draft' },
+      })
     })
 
-    it('should keep first @database block when multiple exist', () => {
+    it('should report casts without exactly one argument', () => {
       const css = `
-        @database {
-          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
-        }
-        @database {
-          CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);
+        [path="/test"]:GET {
+          @return json(number(query(a), query(b)));
         }
       `
-      const result = parseCSS(css)
-      expect(result.schema).toContain('CREATE TABLE users')
-      expect(result.schema).not.toContain('CREATE TABLE posts')
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'number() expects 1 argument, got 2',
+      ])
     })
   })
 
-  describe('Return Types', () => {
-    it('should parse json return', () => {
+  describe('Path Parsing', () => {
+    it('should parse dotted and bracket paths in var() and body()', () => {
       const css = `
-        [path="/test"]:GET {
-          @return json({ "message": "hello" });
+        [path="/test"]:POST {
+          --rows: sql-all("SELECT * FROM users");
+          --first: var(--rows[0].id);
+          --qty: body(items[2].qty);
+          --city: body(address["city"]);
+          @return json(var(--first));
         }
       `
       const result = parseCSS(css)
-      expect(result.routes[0].return.type).toBe('json')
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].variables.slice(1).map((v) => v.value)).toEqual([
+        { type: 'var', name: 'rows', path: [0, 'id'] },
+        { type: 'body', fieldName: 'items', path: [2, 'qty'] },
+        { type: 'body', fieldName: 'address', path: ['city'] },
+      ])
     })
 
-    it('should parse html return', () => {
+    it('should parse paths in if() conditions', () => {
+      const css = `
+        [path="/test"]:GET {
+          --user: sql-one("SELECT * FROM users LIMIT 1");
+          @return json(if(
+            --user.role = admin: "admin";
+            --user.tags[0]: "tagged";
+            else: "user";
+          ));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      const returnValue = result.routes[0].return.value
+      if (isExpressionType(returnValue, 'if')) {
+        expect(returnValue.branches.map((b) => b.condition)).toEqual([
+          { type: 'equals', varName: 'user', path: ['role'], value: 'admin' },
+          { type: 'truthy', varName: 'user', path: ['tags', 0] },
+        ])
+      }
+    })
+
+    it('should report malformed paths', () => {
+      const css = `
+        [path="/test"]:GET {
+          --user: sql-one("SELECT * FROM users LIMIT 1");
+          --a: var(--user..email);
+          --b: body(items[x]);
+          @return json(var(--a));
+        }
+      `
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'Malformed path "user..email"',
+        'Malformed path "items[x]"',
+      ])
+    })
+
+    it('should check the variable a path starts from', () => {
+      const css = `
+        [path="/test"]:GET {
+          @return json(if(--user.role = admin: var(--user.email); else: null));
+        }
+      `
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'Variable --user is not declared in route GET /test',
+      ])
+    })
+  })
+
+  describe('JSON Template Parsing', () => {
+    it('should keep plain JSON as a json expression', () => {
+      const css = `
+        [path="/test"]:GET {
+          @return json({ "ok": true, "items": [1, 2] });
+        }
+      `
+      expect(parseCSS(css).routes[0].return.value).toEqual({
+        type: 'json',
+        value: { ok: true, items: [1, 2] },
+      })
+    })
+
+    it('should parse objects and arrays with expression values', () => {
+      const css = `
+        [path="/users"]:GET {
+          --rows: sql-all("SELECT * FROM users");
+          @return json({
+            "data": var(--rows),
+            "meta": { "page": int(query(page)), "size": 20 },
+            "ids": [var(--rows[0].id), null]
+          });
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].return.value).toEqual({
+        type: 'object',
+        properties: {
+          data: { type: 'var', name: 'rows' },
+          meta: {
+            type: 'object',
+            properties: {
+              page: {
+                type: 'cast',
+                to: 'int',
+                value: { type: 'query', paramName: 'page' },
+              },
+              size: { type: 'literal', value: 20 },
+            },
+          },
+          ids: {
+            type: 'array',
+            items: [
+              { type: 'var', name: 'rows', path: [0, 'id'] },
+              { type: 'literal', value: null },
+            ],
+          },
+        },
+      })
+    })
+
+    it('should parse templates in if() branches and function arguments', () => {
+      const css = `
+        [path="/test"]:GET {
+          --user: sql-one("SELECT * FROM users LIMIT 1");
+          @return json(if(
+            --user: { "user": var(--user), "found": true };
+            else: { "error": concat("No user ", param(id)) };
+          ));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      const returnValue = result.routes[0].return.value
+      if (isExpressionType(returnValue, 'if')) {
+        expect(returnValue.branches[0].value.type).toBe('object')
+        expect(returnValue.elseValue).toEqual({
+          type: 'object',
+          properties: {
+            error: {
+              type: 'concat',
+              parts: [
+                { type: 'literal', value: 'No user ' },
+                { type: 'param', paramName: 'id' },
+              ],
+            },
+          },
+        })
+      }
+    })
+
+    it('should decode escaped keys like JSON', () => {
+      const css = String.raw`
+        [path="/test"]:GET {
+          --x: 1;
+          @return json({ "c\u0041": var(--x), "a\"b": var(--x), 'c': 2 });
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      const returnValue = result.routes[0].return.value
+      if (isExpressionType(returnValue, 'object')) {
+        expect(Object.keys(returnValue.properties)).toEqual(['cA', 'a"b', 'c'])
+      }
+    })
+
+    it('should decode literal values like JSON', () => {
+      const css = String.raw`
+        [path="/test"]:GET {
+          --n: 1;
+          @return json({
+            "big": 1e3,
+            "name": "caf\u00e9",
+            "lines": "a\nb",
+            "quote": "say \"hi\"",
+            "tags": ["a", 2],
+            "n": var(--n)
+          });
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].return.value).toEqual({
+        type: 'object',
+        properties: {
+          big: { type: 'literal', value: 1000 },
+          name: { type: 'literal', value: 'café' },
+          lines: { type: 'literal', value: 'a\nb' },
+          quote: { type: 'literal', value: 'say "hi"' },
+          tags: { type: 'json', value: ['a', 2] },
+          n: { type: 'var', name: 'n' },
+        },
+      })
+    })
+
+    it('should report values that are neither JSON nor an expression', () => {
+      const css = `
+        [path="/test"]:GET {
+          --n: 1;
+          @return json({ "n": 1 "x": 2, "y": var(--n) });
+        }
+      `
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'Malformed JSON template value "1 "x": 2"',
+      ])
+    })
+
+    it('should keep a __proto__ key as a property', () => {
+      const css = `
+        [path="/test"]:GET {
+          --x: 1;
+          @return json({ "__proto__": var(--x) });
+        }
+      `
+      const returnValue = parseCSS(css).routes[0].return.value
+      if (isExpressionType(returnValue, 'object')) {
+        expect(Object.keys(returnValue.properties)).toEqual(['__proto__'])
+        expect(Object.getPrototypeOf(returnValue.properties)).toBeNull()
+      }
+    })
+
+    it('should report malformed templates', () => {
+      const css = `
+        [path="/test"]:GET {
+          --user: sql-one("SELECT * FROM users LIMIT 1");
+          --a: { var(--user) };
+          --b: { "user": lookup(--user) };
+          @return json(var(--a));
+        }
+      `
+      expect(parseCSS(css).diagnostics.map((d) => d.message)).toEqual([
+        'Malformed JSON template entry "var(--user)"',
+        'Unknown function lookup()',
+      ])
+    })
+  })
+
+  describe('Status Parsing', () => {
+    it('should parse literal status', () => {
+      const css = `
+        [path="/test"]:GET {
+          status: 404;
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].status?.type).toBe('literal')
+      expect(result.routes[0].status?.value).toBe(404)
+    })
+
+    it('should parse if status', () => {
+      const css = `
+        [path="/test"]:GET {
+          --role: header(x-role);
+          status: if(--role = admin: 200; else: 403);
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].status?.type).toBe('if')
+    })
+
+    it('should parse status from var', () => {
+      const css = `
+        [path="/test"]:GET {
+          --code: 201;
+          status: var(--code);
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].status?.type).toBe('var')
+    })
+  })
+
+  describe('Response Header Parsing', () => {
+    it('should parse header-* declarations', () => {
+      const css = `
+        [path="/users"]:POST {
+          --id: 7;
+          header-location: concat("/users/", var(--id));
+          header-Cache-Control: "no-store";
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].headers).toEqual([
+        {
+          name: 'location',
+          value: {
+            type: 'concat',
+            parts: [
+              { type: 'literal', value: '/users/' },
+              { type: 'var', name: 'id' },
+            ],
+          },
+          source: expect.any(Object),
+        },
+        {
+          name: 'cache-control',
+          value: { type: 'literal', value: 'no-store' },
+          source: expect.any(Object),
+        },
+      ])
+    })
+
+    it('should parse @header at-rules', () => {
+      const css = `
+        [path="/report"]:GET {
+          --format: query(format);
+          @header Content-Disposition if(--format = csv: "attachment");
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].headers[0].name).toBe('content-disposition')
+      expect(result.routes[0].headers[0].value.type).toBe('if')
+      expect(result.diagnostics).toEqual([])
+    })
+
+    it('should inherit headers from prefix rules', () => {
+      const css = `
+        [path="/api"] {
+          header-x-api-version: "1";
+          [path="/users"]:GET { @return json([]); }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].headers.map((h) => h.name)).toEqual([
+        'x-api-version',
+      ])
+    })
+
+    it('should report invalid headers and undeclared variables', () => {
+      const css = `
+        [path="/test"]:GET {
+          @header X-Empty;
+          header-location: var(--missing);
+          @return json({});
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        '@header X-Empty requires a name and a value',
+        'Variable --missing is not declared in route GET /test',
+      ])
+    })
+  })
+
+  describe('Validation Parsing', () => {
+    it('should parse @validate fields with types and constraints', () => {
+      const css = `
+        [path="/users"]:POST {
+          @validate {
+            email: body required pattern("^[^@]+@[^@]+$");
+            name: body string min-length(2) max-length(50);
+            age: body integer min(0) max(150);
+            role: body one-of(admin, user);
+            page: query integer;
+          }
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(
+        result.routes[0].validations.map(({ source: _, ...rest }) => rest)
+      ).toEqual([
+        {
+          name: 'email',
+          from: 'body',
+          type: 'string',
+          required: true,
+          pattern: '^[^@]+@[^@]+$',
+        },
+        {
+          name: 'name',
+          from: 'body',
+          type: 'string',
+          required: false,
+          minLength: 2,
+          maxLength: 50,
+        },
+        {
+          name: 'age',
+          from: 'body',
+          type: 'integer',
+          required: false,
+          min: 0,
+          max: 150,
+        },
+        {
+          name: 'role',
+          from: 'body',
+          type: 'string',
+          required: false,
+          oneOf: ['admin', 'user'],
+        },
+        {
+          name: 'page',
+          from: 'query',
+          type: 'integer',
+          required: false,
+        },
+      ])
+    })
+
+    it('should declare validated fields as variables', () => {
+      const css = `
+        [path="/api"] {
+          @validate { token: header required; }
+          [path="/items"]:GET {
+            @return json(var(--token));
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].validations[0].name).toBe('token')
+    })
+
+    it('should report malformed validations', () => {
+      const css = `
+        [path="/test"]:POST {
+          @validate {
+            a: cookie;
+            b: body integer min(x);
+            c: body strange;
+            d: body pattern("(");
+          }
+          @return json({});
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'Validation for a must start with body, query, param, header',
+        'min() for b expects a number',
+        'Unknown validation "strange" for c',
+        'Invalid pattern for d: "("',
+      ])
+    })
+  })
+
+  describe('Auth Parsing', () => {
+    it('should parse @auth jwt with defaults', () => {
+      const css = `
+        [path="/me"]:GET {
+          @auth jwt { secret: env(JWT_SECRET); }
+          @return json(sql-one("SELECT * FROM users WHERE id = ?", var(--auth-sub)));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].auth).toEqual({
+        scheme: 'jwt',
+        token: { type: 'header', headerName: 'authorization' },
+        secret: { type: 'env', name: 'JWT_SECRET' },
+        variable: 'auth',
+        source: expect.any(Object),
+      })
+    })
+
+    it('should inherit @auth from prefix rules', () => {
+      const css = `
+        [path="/admin"] {
+          @auth jwt {
+            secret: env(JWT_SECRET, "dev");
+            token: query(token);
+            variable: --user;
+          }
+          [path="/stats"]:GET { @return json(var(--user-role)); }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].auth?.variable).toBe('user')
+      expect(result.routes[0].auth?.token).toEqual({
+        type: 'query',
+        paramName: 'token',
+      })
+    })
+
+    it('should parse jwt() and env() expressions', () => {
+      const css = `
+        [path="/me"]:GET {
+          --claims: jwt(header(authorization), env(JWT_SECRET));
+          @return json(var(--claims));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].variables[0].value).toEqual({
+        type: 'jwt',
+        token: { type: 'header', headerName: 'authorization' },
+        secret: { type: 'env', name: 'JWT_SECRET' },
+      })
+    })
+
+    it('should report invalid auth configuration', () => {
+      const css = `
+        [path="/a"]:GET {
+          @auth basic { secret: "x"; }
+          @return json({});
+        }
+        [path="/b"]:GET {
+          @auth jwt { realm: "x"; }
+          --claims: jwt(header(authorization));
+          @return json({});
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'Unsupported @auth scheme "basic", expected jwt',
+        '@auth jwt requires a secret',
+        'Unknown @auth property "realm"',
+        'jwt() expects a token and a secret',
+      ])
+    })
+  })
+
+  describe('Rate Limit Parsing', () => {
+    it('should parse rate-limit declarations', () => {
+      const css = `
+        [path="/search"]:GET {
+          rate-limit: 100 / 1m by header(x-api-key);
+          @return json([]);
+        }
+        [path="/slow"]:GET {
+          rate-limit: 5/30s;
+          @return json([]);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].rateLimit).toEqual({
+        limit: 100,
+        windowMs: 60_000,
+        key: { type: 'header', headerName: 'x-api-key' },
+        source: expect.any(Object),
+      })
+      expect(result.routes[1].rateLimit).toMatchObject({
+        limit: 5,
+        windowMs: 30_000,
+      })
+    })
+
+    it('should parse global @rate-limit blocks', () => {
+      const css = `
+        @rate-limit {
+          limit: 1000 / 1h;
+        }
+        @rate-limit [path="/api/*"]:POST {
+          limit: 10 / 1s;
+          by: header(x-api-key);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.rateLimits).toEqual([
+        {
+          limit: 1000,
+          windowMs: 3_600_000,
+          path: undefined,
+          method: undefined,
+          source: expect.any(Object),
+        },
+        {
+          limit: 10,
+          windowMs: 1000,
+          key: { type: 'header', headerName: 'x-api-key' },
+          path: '/api/*',
+          method: 'POST',
+          source: expect.any(Object),
+        },
+      ])
+    })
+
+    it('should report invalid rate limits', () => {
+      const css = `
+        @rate-limit { by: header(x-api-key); }
+        [path="/a"]:GET {
+          rate-limit: 10 per minute;
+          @return json([]);
+        }
+        [path="/b"]:GET {
+          --key: query(key);
+          rate-limit: 10 / 1m by var(--key);
+          @return json([]);
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        '@rate-limit requires a limit, e.g. 100 / 1m',
+        'Invalid rate limit "10 per minute", expected <count> / <duration>',
+        'Variable --key is not declared in route GET /b',
+      ])
+    })
+  })
+
+  describe('Cache Parsing', () => {
+    it('should parse cache and invalidate declarations', () => {
+      const css = `
+        [path="/users"] {
+          &:GET {
+            cache: 30s vary(Authorization, accept-language);
+            @return json([]);
+          }
+          &:POST {
+            invalidate: "/users*", "/stats";
+            @return json({});
+          }
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].cache).toEqual({
+        ttlMs: 30_000,
+        vary: ['authorization', 'accept-language'],
+        source: expect.any(Object),
+      })
+      expect(result.routes[1].invalidate).toEqual(['/users*', '/stats'])
+    })
+
+    it('should report invalid and ignored cache declarations', () => {
+      const css = `
+        [path="/a"]:GET {
+          cache: forever;
+          @return json([]);
+        }
+        [path="/b"]:POST {
+          cache: 1m;
+          @return json([]);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        'Invalid cache "forever", expected <duration> [vary(headers)]',
+        'cache is ignored on POST /b: only GET routes are cached',
+      ])
+      expect(result.routes[1].cache).toBeUndefined()
+    })
+
+    it('should warn when an authenticated route is cached for everyone', () => {
+      const css = `
+        @before [path="/admin/*"] {
+          @auth jwt { secret: "s"; token: header(x-token); }
+        }
+        [path="/me"]:GET {
+          @auth jwt { secret: "s"; }
+          cache: 30s;
+          @return json(var(--auth));
+        }
+        [path="/admin/stats"]:GET {
+          cache: 30s vary(authorization);
+          @return json(var(--auth));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'warning',
+          message:
+            "Cached route GET /me reads request headers but does not vary(authorization); every caller would get the first caller's response",
+          line: 7,
+          column: 11,
+        },
+        {
+          severity: 'warning',
+          message:
+            "Cached route GET /admin/stats reads request headers but does not vary(x-token); every caller would get the first caller's response",
+          line: 11,
+          column: 11,
+        },
+      ])
+    })
+
+    it('should warn when a cached route reads headers it does not vary on', () => {
+      const css = `
+        @before [path="/me"] {
+          --who: header(X-User);
+        }
+        [path="/me"]:GET {
+          @validate { locale: header required; }
+          cache: 30s vary(accept-language);
+          @return json(var(--who));
+        }
+        [path="/lang"]:GET {
+          cache: 30s vary(accept-language);
+          @return json(header(accept-language));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'warning',
+          message:
+            "Cached route GET /me reads request headers but does not vary(x-user, locale); every caller would get the first caller's response",
+          line: 7,
+          column: 11,
+        },
+      ])
+    })
+
+    it('should not warn when the cache varies on the token', () => {
+      const css = `
+        [path="/me"]:GET {
+          @auth jwt { secret: "s"; }
+          cache: 30s vary(authorization);
+          @return json(var(--auth));
+        }
+        [path="/feed"]:GET {
+          @auth jwt { secret: "s"; token: query(token); }
+          cache: 30s;
+          @return json(var(--auth));
+        }
+      `
+      expect(parseCSS(css).diagnostics).toEqual([])
+    })
+  })
+
+  describe('Transaction Parsing', () => {
+    it('should parse transaction declarations', () => {
+      const css = `
+        [path="/orders"]:POST {
+          transaction: true;
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].transaction).toEqual({
+        source: expect.any(Object),
+      })
+    })
+
+    it('should parse @transaction error responses', () => {
+      const css = `
+        [path="/orders"]:POST {
+          @transaction {
+            status: 409;
+            @return json(var(--error));
+          }
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes[0].transaction).toMatchObject({
+        status: { type: 'literal', value: 409 },
+        return: { type: 'json', value: { type: 'var', name: 'error' } },
+      })
+    })
+
+    it('should report invalid transaction declarations', () => {
+      const css = `
+        [path="/a"]:POST {
+          transaction: yes;
+          @return json({});
+        }
+        @before {
+          transaction: true;
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        'transaction must be true or false',
+        'transaction is ignored inside @before',
+      ])
+    })
+  })
+
+  describe('Database Schema Parsing', () => {
+    it('should parse single @database block', () => {
+      const css = `
+        @database {
+          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+          CREATE INDEX users_name ON users(name);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.schema).toContain('CREATE TABLE users')
+      expect(result.schema).toContain('CREATE INDEX users_name')
+    })
+
+    it('should return undefined when @database is missing', () => {
+      const css = `
+        [path="/"]:GET {
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.schema).toBeUndefined()
+    })
+
+    it('should merge all @database blocks in order', () => {
+      const css = `
+        @database {
+          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+        }
+        @database {
+          CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.schema).toBe(
+        'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);\n\n' +
+          'CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);'
+      )
+    })
+
+    it('should parse @migration blocks in order', () => {
+      const css = `
+        @server { database: ./app.db; }
+        @migration "001-create-users" {
+          CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+        }
+        @migration 002-add-email {
+          ALTER TABLE users ADD COLUMN email TEXT;
+        }
+        [path="/"]:GET { @return json({}); }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes).toHaveLength(1)
+      expect(result.migrations).toEqual([
+        {
+          name: '001-create-users',
+          sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);',
+          source: { line: 3, column: 9 },
+        },
+        {
+          name: '002-add-email',
+          sql: 'ALTER TABLE users ADD COLUMN email TEXT;',
+          source: { line: 6, column: 9 },
+        },
+      ])
+    })
+
+    it('should collect @seed blocks separately from the schema', () => {
+      const css = `
+        @server { database: ./app.db; }
+        @database { CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT); }
+        @seed { INSERT INTO users (name) VALUES ('Ada'); }
+        [path="/"]:GET { @return json({}); }
+        @seed { INSERT INTO users (name) VALUES ('Grace'); }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+      expect(result.routes).toHaveLength(1)
+      expect(result.schema).not.toContain('INSERT')
+      expect(result.seed).toBe(
+        "INSERT INTO users (name) VALUES ('Ada');\n\n" +
+          "INSERT INTO users (name) VALUES ('Grace');"
+      )
+    })
+
+    it('should warn about @seed blocks without a database', () => {
+      const result = parseCSS(`@seed { INSERT INTO users VALUES (1); }`)
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        '@seed blocks are ignored: @server has no database',
+      ])
+    })
+
+    it('should report invalid @migration blocks', () => {
+      const css = `
+        @migration "001" { CREATE TABLE a (id INTEGER); }
+        @migration "001" { CREATE TABLE b (id INTEGER); }
+        @migration { CREATE TABLE c (id INTEGER); }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toEqual([
+        '@migration blocks are ignored: @server has no database',
+        'Duplicate @migration "001"',
+        '@migration requires a name, e.g. @migration "001-init"',
+      ])
+    })
+  })
+
+  describe('Return Types', () => {
+    it('should parse json return', () => {
+      const css = `
+        [path="/test"]:GET {
+          @return json({ "message": "hello" });
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes[0].return.type).toBe('json')
+    })
+
+    it('should parse html return', () => {
       const css = `
         [path="/test"]:GET {
           @return html("<h1>Hello</h1>");
@@ -552,4 +2079,147 @@ describe('Parser', () => {
       })
     })
   })
+
+  describe('Diagnostics', () => {
+    it('should return no diagnostics for a valid file', () => {
+      const css = `
+        [path="/users/:id"]:GET {
+          --id: param(:id);
+          @return json(sql-one("SELECT * FROM users WHERE id = ?", var(--id)));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([])
+    })
+
+    it('should report unknown functions with line and column', () => {
+      const css = `[path="/test"]:GET {
+  --x: lookup(users);
+  @return json(var(--x));
+}`
+      const result = parseCSS(css)
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          message: 'Unknown function lookup()',
+          line: 2,
+          column: 3,
+        },
+      ])
+    })
+
+    it('should report malformed sql() calls', () => {
+      const css = `
+        [path="/test"]:GET {
+          @return json(sql(SELECT 1));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics[0].severity).toBe('error')
+      expect(result.diagnostics[0].message).toContain('Malformed sql()')
+      expect(result.diagnostics[0].line).toBe(3)
+    })
+
+    it('should report malformed if() branches and conditions', () => {
+      const css = `
+        [path="/test"]:GET {
+          --x: 1;
+          --a: if(--x "yes"; else: "no");
+          --b: if(x > 1: "yes");
+          @return json(var(--a));
+        }
+      `
+      const messages = parseCSS(css).diagnostics.map((d) => d.message)
+      expect(messages).toContain(
+        'Malformed if() branch "--x "yes"": expected "condition: value"'
+      )
+      expect(messages).toContain('Malformed condition "x > 1"')
+    })
+
+    it('should report trailing content after a function call', () => {
+      const css = `
+        [path="/test"]:GET {
+          --id: param(:id) extra;
+          @return json(var(--id));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics.map((d) => d.message)).toContain(
+        'Unexpected "extra" after param()'
+      )
+    })
+
+    it('should report routes without @return', () => {
+      const css = `
+        [path="/test"]:GET {
+          --x: 1;
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.routes).toHaveLength(0)
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          message: 'Route GET /test has no @return',
+          line: 2,
+          column: 9,
+        },
+      ])
+    })
+
+    it('should report undeclared variables', () => {
+      const css = `
+        [path="/test"]:GET {
+          --user: sql-one("SELECT * FROM users WHERE id = ?", var(--id));
+          @return json(if(--missing: var(--user); else: null));
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics.map((d) => [d.line, d.message])).toEqual([
+        [3, 'Variable --id is not declared in route GET /test'],
+        [4, 'Variable --missing is not declared in route GET /test'],
+      ])
+    })
+
+    it('should warn about rules that are not routes', () => {
+      const css = `
+        [path="/users"] {
+          @return json({});
+        }
+      `
+      const result = parseCSS(css)
+      expect(result.diagnostics[0].severity).toBe('warning')
+      expect(result.diagnostics[0].message).toContain('no HTTP method')
+    })
+
+    it('should keep line numbers after @database blocks', () => {
+      const css = `@database {
+  CREATE TABLE users (id INTEGER PRIMARY KEY);
+}
+
+[path="/test"]:GET {
+  --x: nope();
+  @return json(var(--x));
+}`
+      const result = parseCSS(css)
+      expect(result.diagnostics[0].line).toBe(6)
+    })
+
+    it('should warn that @import needs a file', () => {
+      const result = parseCSS(`@import "users.css";`)
+      expect(result.diagnostics[0].severity).toBe('warning')
+      expect(result.diagnostics[0].message).toContain('@import')
+    })
+
+    it('should report CSS syntax errors', () => {
+      const css = `
+        [path="/test"]:GET {
+          @return json({});
+      `
+      const result = parseCSS(css)
+      expect(result.routes).toHaveLength(0)
+      expect(result.diagnostics[0].severity).toBe('error')
+      expect(result.diagnostics[0].line).toBe(2)
+    })
+  })
 })
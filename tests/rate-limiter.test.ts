@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { createRateLimiter } from '../src/rate-limiter.js'
+
+describe('Rate limiter', () => {
+  function createClock() {
+    let time = 0
+    return {
+      now: () => time,
+      advance: (ms: number) => {
+        time += ms
+      },
+    }
+  }
+
+  it('should allow bursts up to the limit', () => {
+    const clock = createClock()
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60_000, ...clock })
+
+    expect(limiter.hit('a')).toEqual({
+      allowed: true,
+      limit: 3,
+      remaining: 2,
+      reset: 20,
+    })
+    expect(limiter.hit('a').remaining).toBe(1)
+    expect(limiter.hit('a').remaining).toBe(0)
+    expect(limiter.hit('a')).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      reset: 60,
+      retryAfter: 20,
+    })
+  })
+
+  it('should refill tokens over the window', () => {
+    const clock = createClock()
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, ...clock })
+
+    limiter.hit('a')
+    limiter.hit('a')
+    expect(limiter.hit('a').allowed).toBe(false)
+
+    clock.advance(499)
+    expect(limiter.hit('a').allowed).toBe(false)
+
+    clock.advance(1)
+    expect(limiter.hit('a').allowed).toBe(true)
+    expect(limiter.hit('a').allowed).toBe(false)
+
+    clock.advance(10_000)
+    expect(limiter.hit('a').remaining).toBe(1)
+  })
+
+  it('should track keys separately', () => {
+    const clock = createClock()
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000, ...clock })
+
+    expect(limiter.hit('a').allowed).toBe(true)
+    expect(limiter.hit('a').allowed).toBe(false)
+    expect(limiter.hit('b').allowed).toBe(true)
+  })
+})
@@ -5,6 +5,7 @@ import packageJSON from './package.json' with { type: 'json' }
 export default defineConfig({
   entry: {
     index: './src/index.ts',
+    lib: './src/lib.ts',
   },
 
   outDir: './dist',